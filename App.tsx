@@ -1,25 +1,155 @@
 
 import React, { useState, useEffect } from 'react';
-import { AppView, AvatarProfile } from './types';
+import { AppView, AvatarProfile, StoredProfile } from './types';
 import AvatarCreator from './components/AvatarCreator';
 import AvatarChat from './components/AvatarChat';
+import AvatarLibrary from './components/AvatarLibrary';
 import LiveSession from './components/LiveSession';
-import { Bot, Zap, Plus, MessageSquare } from 'lucide-react';
+import { createProfile, deleteProfile, duplicateProfile, listProfiles, updateProfile } from './services/profileService';
+import { precomputeProfileEmbeddings } from './services/embeddingService';
+import { exportProfileBundle, getBundleFileName, hasProfileConflict, importProfileBundle, parseProfileBundle } from './services/bundleService';
+import { Bot, Zap, Plus, MessageSquare, Users } from 'lucide-react';
+
+const ACTIVE_PROFILE_KEY = 'memory-avatar:active-profile';
 
 const App: React.FC = () => {
-  const [currentView, setCurrentView] = useState<AppView>(AppView.CREATE);
-  const [profile, setProfile] = useState<AvatarProfile | null>(null);
+  const [currentView, setCurrentView] = useState<AppView>(AppView.LIBRARY);
+  const [profiles, setProfiles] = useState<StoredProfile[]>([]);
+  const [activeProfileId, setActiveProfileId] = useState<string | null>(() => localStorage.getItem(ACTIVE_PROFILE_KEY));
+  const [editingProfileId, setEditingProfileId] = useState<string | null>(null);
+  const [isLoaded, setIsLoaded] = useState(false);
+
+  const profile: AvatarProfile | null = profiles.find(p => p.profile.id === activeProfileId)?.profile || null;
+  const editingProfile: AvatarProfile | null = profiles.find(p => p.profile.id === editingProfileId)?.profile || null;
 
-  // If no profile exists, force create view
+  const refreshProfiles = async () => {
+    try {
+      setProfiles(await listProfiles());
+    } catch (e) {
+      console.error("Failed to load saved avatars", e);
+    }
+  };
+
+  // Load the saved library once on startup
   useEffect(() => {
-    if (!profile) setCurrentView(AppView.CREATE);
-  }, [profile]);
+    refreshProfiles().finally(() => setIsLoaded(true));
+  }, []);
+
+  // Remember the last used avatar across reloads
+  useEffect(() => {
+    if (activeProfileId) localStorage.setItem(ACTIVE_PROFILE_KEY, activeProfileId);
+    else localStorage.removeItem(ACTIVE_PROFILE_KEY);
+  }, [activeProfileId]);
+
+  // If the library is empty, force create view
+  useEffect(() => {
+    if (isLoaded && profiles.length === 0) setCurrentView(AppView.CREATE);
+  }, [isLoaded, profiles.length]);
+
+  // In the background; only new or edited memories and passages reach the API
+  const warmEmbeddings = (saved: AvatarProfile) => {
+    precomputeProfileEmbeddings(saved).catch(e => console.warn("Embedding precompute failed", e));
+  };
+
+  const handleProfileCreated = async (newProfile: AvatarProfile) => {
+    try {
+      const saved = editingProfile
+        ? await updateProfile(newProfile)
+        : await createProfile(newProfile);
+      await refreshProfiles();
+      warmEmbeddings(saved.profile);
+      setActiveProfileId(saved.profile.id);
+      setEditingProfileId(null);
+      setCurrentView(AppView.CHAT);
+    } catch (e) {
+      console.error("Failed to save avatar", e);
+      alert('Failed to save avatar. ' + (e instanceof Error ? e.message : 'Unknown error'));
+    }
+  };
+
+  // Saves changes made outside the creator, e.g. memories approved in chat.
+  // Rethrows after reporting so the caller can undo what it showed as saved.
+  const handleProfileUpdated = async (updated: AvatarProfile) => {
+    try {
+      await updateProfile(updated);
+    } catch (e) {
+      console.error("Failed to save avatar", e);
+      alert('Failed to save avatar. ' + (e instanceof Error ? e.message : 'Unknown error'));
+      throw e;
+    }
+    await refreshProfiles();
+    warmEmbeddings(updated);
+  };
 
-  const handleProfileCreated = (newProfile: AvatarProfile) => {
-    setProfile(newProfile);
+  const handleSelectProfile = (id: string) => {
+    setActiveProfileId(id);
     setCurrentView(AppView.CHAT);
   };
 
+  const handleEditProfile = (id: string) => {
+    setEditingProfileId(id);
+    setCurrentView(AppView.CREATE);
+  };
+
+  const handleCreateNew = () => {
+    setEditingProfileId(null);
+    setCurrentView(AppView.CREATE);
+  };
+
+  const handleDuplicateProfile = async (id: string) => {
+    try {
+      await duplicateProfile(id);
+    } catch (e) {
+      console.error("Failed to duplicate avatar", e);
+      alert('Failed to duplicate avatar. ' + (e instanceof Error ? e.message : 'Unknown error'));
+    }
+    await refreshProfiles();
+  };
+
+  const handleDeleteProfile = async (id: string) => {
+    try {
+      await deleteProfile(id);
+      if (id === activeProfileId) setActiveProfileId(null);
+    } catch (e) {
+      console.error("Failed to delete avatar", e);
+      alert('Failed to delete avatar. ' + (e instanceof Error ? e.message : 'Unknown error'));
+    }
+    await refreshProfiles();
+  };
+
+  const handleExportProfile = async (id: string) => {
+    try {
+      const bundle = await exportProfileBundle(id);
+      const url = URL.createObjectURL(new Blob([JSON.stringify(bundle)], { type: 'application/json' }));
+      const link = document.createElement('a');
+      link.href = url;
+      link.download = getBundleFileName(bundle.manifest.profile.name);
+      link.click();
+      URL.revokeObjectURL(url);
+    } catch (e) {
+      console.error("Failed to export avatar", e);
+      alert('Failed to export avatar. ' + (e instanceof Error ? e.message : 'Unknown error'));
+    }
+  };
+
+  const handleImportProfile = async (file: File) => {
+    try {
+      const bundle = parseProfileBundle(await file.text());
+      const { name } = bundle.manifest.profile;
+
+      // Same avatar already here: replace it, or keep both
+      const asCopy = await hasProfileConflict(bundle)
+        && !window.confirm(`${name} is already in your library. Replace it and its conversations with the imported version?\n\nChoose Cancel to keep both.`);
+
+      const saved = await importProfileBundle(bundle, asCopy);
+      await refreshProfiles();
+      warmEmbeddings(saved.profile);
+    } catch (e) {
+      console.error("Failed to import avatar", e);
+      alert('Failed to import avatar. ' + (e instanceof Error ? e.message : 'Unknown error'));
+    }
+  };
+
   return (
     <div className="min-h-screen bg-slate-950 text-slate-100 flex flex-col md:flex-row">
       {/* Sidebar Navigation */}
@@ -29,7 +159,15 @@ const App: React.FC = () => {
         </div>
         
         <button 
-          onClick={() => setCurrentView(AppView.CREATE)}
+          onClick={() => setCurrentView(AppView.LIBRARY)}
+          className={`p-3 rounded-xl transition-all ${currentView === AppView.LIBRARY ? 'bg-slate-800 text-purple-400' : 'text-slate-500 hover:text-slate-300'}`}
+          title="Avatar Library"
+        >
+          <Users size={24} />
+        </button>
+
+        <button 
+          onClick={handleCreateNew}
           className={`p-3 rounded-xl transition-all ${currentView === AppView.CREATE ? 'bg-slate-800 text-purple-400' : 'text-slate-500 hover:text-slate-300'}`}
           title="New Avatar"
         >
@@ -63,11 +201,13 @@ const App: React.FC = () => {
         <div className="max-w-4xl mx-auto h-full">
             <header className="mb-8">
                 <h1 className="text-3xl font-bold bg-clip-text text-transparent bg-gradient-to-r from-indigo-400 to-purple-400">
+                    {currentView === AppView.LIBRARY && "Your Avatars"}
                     {currentView === AppView.CREATE && "Back to Life"}
                     {currentView === AppView.CHAT && "Chat"}
                     {currentView === AppView.LIVE && "Voice Call"}
                 </h1>
                 <p className="text-slate-400 mt-2 text-lg">
+                    {currentView === AppView.LIBRARY && "Pick up where you left off, or bring someone new to life."}
                     {currentView === AppView.CREATE && (
                         <>
                            <span className="font-semibold text-indigo-300">A Memory Avatar.</span> Create an AI avatar of a loved one. Bring a photo to life with memory and voice.
@@ -79,18 +219,38 @@ const App: React.FC = () => {
             </header>
 
             <div className="h-[calc(100vh-180px)]">
+                {currentView === AppView.LIBRARY && (
+                    <AvatarLibrary
+                        profiles={profiles}
+                        activeProfileId={activeProfileId}
+                        onSelect={handleSelectProfile}
+                        onEdit={handleEditProfile}
+                        onDuplicate={handleDuplicateProfile}
+                        onDelete={handleDeleteProfile}
+                        onExport={handleExportProfile}
+                        onImport={handleImportProfile}
+                        onCreateNew={handleCreateNew}
+                    />
+                )}
+
                 {currentView === AppView.CREATE && (
-                    <AvatarCreator onProfileCreated={handleProfileCreated} />
+                    <AvatarCreator 
+                        key={editingProfile?.id || 'new'}
+                        initialProfile={editingProfile}
+                        onProfileCreated={handleProfileCreated} 
+                    />
                 )}
                 
                 {currentView === AppView.CHAT && profile && (
-                    <AvatarChat profile={profile} />
+                    <AvatarChat key={profile.id} profile={profile} onProfileUpdated={handleProfileUpdated} />
                 )}
 
                 {currentView === AppView.LIVE && profile && (
                     <LiveSession 
+                        key={profile.id}
                         profile={profile} 
                         onEndSession={() => setCurrentView(AppView.CHAT)} 
+                        onProfileUpdated={handleProfileUpdated}
                     />
                 )}
             </div>
@@ -1,138 +1,299 @@
 
 import React, { useState, useRef, useEffect } from 'react';
-import { AvatarProfile, ExplanationAnalysis } from '../types';
-import { generateAvatarResponse, generateSpeech, transcribeAudio, explainResponse } from '../services/geminiService';
-import { generateElevenLabsSpeech } from '../services/elevenLabsService';
-import { blobToBase64, decodeAudioData } from '../utils/audioUtils';
-import { Mic, Send, StopCircle, Loader2, Sparkles, BrainCircuit, Activity, BookOpen, User, Calculator } from 'lucide-react';
+import { AvatarProfile, ChatMessage, ConversationThread, GroundingLevel, MemoryEntry, PortraitPhoto, SourceCalibration, SpeechAlignment } from '../types';
+import { generateAvatarResponse, synthesizeAvatarSpeech, transcribeAudio, explainResponse, extractMemoryCandidates, summarizeConversation } from '../services/avatarService';
+import { retrieveMemories } from '../services/memoryService';
+import { appendMessages, createMessageId, createThread, getLatestThread, getThreadTitle, isSameMessage, updateMessage, updateThreadSummary } from '../services/threadService';
+import { blobToBase64, decodeSpeechAudio } from '../utils/audioUtils';
+import { createSentenceSplitter } from '../utils/sentenceUtils';
+import { createSpeechPipeline, SpeechPipeline } from '../utils/speechPipeline';
+import { alignmentToVisemes, createVisemeQueue } from '../utils/visemeUtils';
+import { getContextSettings, getUnsummarizedMessages, planSummaryUpdate } from '../utils/contextUtils';
+import { createMemoryId, getMemoryEntries, serializeMemoryEntries } from '../utils/memoryUtils';
+import { selectEraPortrait } from '../utils/portraitUtils';
+import PassageAttribution from './PassageAttribution';
+import StylometryPanel from './StylometryPanel';
+import ThreadHistory from './ThreadHistory';
+import TalkingPortrait from './TalkingPortrait';
+import { Mic, Send, StopCircle, Loader2, Sparkles, BrainCircuit, Activity, BookOpen, User, Calculator, History, Lightbulb, Check, X, ScrollText, Volume2 } from 'lucide-react';
 
 interface Props {
   profile: AvatarProfile;
+  onProfileUpdated: (profile: AvatarProfile) => Promise<void>;
 }
 
-interface Message {
-  role: string;
-  text: string;
-  explanation?: ExplanationAnalysis;
-}
+// Messages this short rarely carry a new fact worth an extraction call
+const MIN_EXTRACTION_LENGTH = 15;
+
+const createWelcomeMessage = (): ChatMessage => ({
+  id: createMessageId(),
+  role: 'model',
+  text: `Hello, I am ready to speak.`,
+  timestamp: Date.now(),
+});
 
-const AvatarChat: React.FC<Props> = ({ profile }) => {
-  const [messages, setMessages] = useState<Message[]>([]);
+const GROUNDING_STYLES: Record<GroundingLevel, { label: string; className: string }> = {
+  grounded: { label: 'Grounded', className: 'text-green-300 border-green-700/60' },
+  topical: { label: 'Only topical', className: 'text-amber-300 border-amber-700/60' },
+  unrelated: { label: 'Not used', className: 'text-slate-500 border-slate-700' },
+};
+
+const AvatarChat: React.FC<Props> = ({ profile, onProfileUpdated }) => {
+  const [messages, setMessages] = useState<ChatMessage[]>([]);
   const [inputText, setInputText] = useState('');
   const [isProcessing, setIsProcessing] = useState(false);
   const [isPlayingAudio, setIsPlayingAudio] = useState(false);
   const [isRecording, setIsRecording] = useState(false);
+  const [streamingText, setStreamingText] = useState<string | null>(null);
   
   // Explanation State
   const [explainingIndex, setExplainingIndex] = useState<number | null>(null);
 
+  // Thread State
+  const [thread, setThread] = useState<ConversationThread | null>(null);
+  const [showHistory, setShowHistory] = useState(false);
+  const [showSummary, setShowSummary] = useState(false);
+  const isSummarizingRef = useRef(false);
+
+  // Learned Memory State - candidates wait here until the user approves them
+  const [memoryCandidates, setMemoryCandidates] = useState<MemoryEntry[]>([]);
+  const profileRef = useRef(profile);
+  profileRef.current = profile;
+
   const scrollRef = useRef<HTMLDivElement>(null);
   const audioContextRef = useRef<AudioContext | null>(null);
-  const audioSourceRef = useRef<AudioBufferSourceNode | null>(null);
+  // Speech output passes through this analyser so the portrait can lip sync
+  const [speechAnalyser, setSpeechAnalyser] = useState<AnalyserNode | null>(null);
+  const speechAnalyserRef = useRef<AnalyserNode | null>(null);
+  const [visemes] = useState(createVisemeQueue);
+  // Photo matching the era of the memories being discussed; null shows the main portrait
+  const [eraPhoto, setEraPhoto] = useState<PortraitPhoto | null>(null);
+  const alignmentsRef = useRef(new WeakMap<AudioBuffer, SpeechAlignment>());
+  const speechPipelineRef = useRef<SpeechPipeline | null>(null);
   const mediaRecorderRef = useRef<MediaRecorder | null>(null);
   const chunksRef = useRef<Blob[]>([]);
 
   useEffect(() => {
-    // Initial welcome message
-    if (messages.length === 0) {
-      setMessages([{ role: 'model', text: `Hello, I am ready to speak.` }]);
+    // Resume the most recent conversation, or start one with a welcome message
+    let cancelled = false;
+    const loadThread = async () => {
+      try {
+        const latest = await getLatestThread(profile.id) || await createThread(profile.id, [createWelcomeMessage()]);
+        if (!cancelled) openThread(latest);
+      } catch (e) {
+        console.error("Failed to load conversation", e);
+        if (!cancelled) setMessages([createWelcomeMessage()]);
+      }
+    };
+    loadThread();
+    return () => { cancelled = true; };
+  }, [profile.id]);
+
+  const openThread = (next: ConversationThread) => {
+    setThread(next);
+    setMessages(next.messages);
+    setExplainingIndex(null);
+    setShowHistory(false);
+  };
+
+  const startNewThread = async () => {
+    try {
+      openThread(await createThread(profile.id, [createWelcomeMessage()]));
+    } catch (e) {
+      console.error("Failed to create conversation", e);
+    }
+  };
+
+  // Adds messages to the view and persists them to the active thread
+  const addMessages = async (newMessages: ChatMessage[]): Promise<ConversationThread | null> => {
+    // The view and the thread share ids so later updates find the same message
+    const withIds = newMessages.map(message => ({ ...message, id: createMessageId() }));
+    setMessages(prev => [...prev, ...withIds]);
+    if (!thread) return null;
+    try {
+      const saved = await appendMessages(thread.id, withIds);
+      setThread(saved);
+      return saved;
+    } catch (e) {
+      console.error("Failed to save messages", e);
+      return null;
+    }
+  };
+
+  // Condenses older turns once the thread exceeds the profile's token budget
+  const updateSummaryIfNeeded = async (current: ConversationThread) => {
+    if (isSummarizingRef.current) return;
+    const plan = planSummaryUpdate(current.messages, current.summary, getContextSettings(profile));
+    if (!plan) return;
+
+    isSummarizingRef.current = true;
+    try {
+      const text = await summarizeConversation(profile, current.summary?.text || '', plan.toSummarize);
+      const saved = await updateThreadSummary(current.id, {
+        text,
+        coveredCount: plan.coveredCount,
+        updatedAt: Date.now(),
+      });
+      setThread(prev => prev && prev.id === saved.id ? saved : prev);
+    } catch (e) {
+      console.error("Failed to summarize conversation", e);
+    } finally {
+      isSummarizingRef.current = false;
     }
-  }, [profile.name]);
+  };
 
   useEffect(() => {
     // Scroll to bottom on message change
     if (scrollRef.current) {
         scrollRef.current.scrollIntoView({ behavior: 'smooth' });
     }
-  }, [messages, explainingIndex]);
+  }, [messages, explainingIndex, streamingText]);
 
-  const playResponseAudio = async (text: string) => {
-    try {
-      const AudioContextClass = window.AudioContext || window.webkitAudioContext;
-      if (!audioContextRef.current) {
-        audioContextRef.current = new AudioContextClass();
-      }
-      const ctx = audioContextRef.current;
-      
-      let audioBuffer: AudioBuffer;
-
-      // 1. Check for ElevenLabs
-      if (profile.elevenLabsVoiceId) {
-          // Key is handled internally in service now
-          const mp3Data = await generateElevenLabsSpeech(profile.elevenLabsVoiceId, text);
-          audioBuffer = await ctx.decodeAudioData(mp3Data); // Standard decode for MP3
-      } else {
-          // 2. Fallback to Gemini
-          const pcmData = await generateSpeech(text, profile.voiceName);
-          audioBuffer = await decodeAudioData(new Uint8Array(pcmData), ctx);
-      }
-      
-      if (audioSourceRef.current) {
-        audioSourceRef.current.stop();
-      }
+  useEffect(() => {
+    // Stop speaking when leaving the chat
+    return () => speechPipelineRef.current?.stop();
+  }, []);
+
+  const getAudioContext = (): AudioContext => {
+    const AudioContextClass = window.AudioContext || window.webkitAudioContext;
+    if (!audioContextRef.current) {
+      const ctx = new AudioContextClass();
+      const analyser = ctx.createAnalyser();
+      analyser.fftSize = 1024;
+      analyser.connect(ctx.destination);
+      audioContextRef.current = ctx;
+      speechAnalyserRef.current = analyser;
+      setSpeechAnalyser(analyser);
+    }
+    return audioContextRef.current;
+  };
 
-      const source = ctx.createBufferSource();
-      source.buffer = audioBuffer;
-      source.connect(ctx.destination);
-      
-      source.onended = () => {
-        setIsPlayingAudio(false);
-      };
+  // Synthesizes text in the avatar's voice (cloned voice first, prebuilt voice as fallback)
+  const synthesizeSpeech = async (ctx: AudioContext, text: string): Promise<AudioBuffer> => {
+    const audio = await synthesizeAvatarSpeech(profile, text);
+    const buffer = await decodeSpeechAudio(audio, ctx);
+    // Character timings become viseme cues once the buffer is scheduled
+    if (audio.alignment) alignmentsRef.current.set(buffer, audio.alignment);
+    return buffer;
+  };
 
-      setIsPlayingAudio(true);
-      source.start(0);
-      audioSourceRef.current = source;
+  // Starts a fresh playback queue, interrupting anything still playing
+  const startSpeechPipeline = (): SpeechPipeline => {
+    speechPipelineRef.current?.stop();
+    const ctx = getAudioContext();
+    visemes.clear();
+    const pipeline = createSpeechPipeline(ctx, text => synthesizeSpeech(ctx, text), {
+      onStart: () => setIsPlayingAudio(true),
+      onEnd: () => setIsPlayingAudio(false),
+      onSchedule: (buffer, startTime) => {
+        const alignment = alignmentsRef.current.get(buffer);
+        if (alignment) visemes.add(alignmentToVisemes(alignment, startTime));
+      },
+    }, speechAnalyserRef.current || ctx.destination);
+    speechPipelineRef.current = pipeline;
+    return pipeline;
+  };
+
+  // Speaks a past reply again. Split the same way as when it streamed in, so
+  // every sentence comes from the speech cache.
+  const replayMessage = (text: string) => {
+    const pipeline = startSpeechPipeline();
+    const splitter = createSentenceSplitter(sentence => pipeline.enqueue(sentence));
+    splitter.push(text);
+    splitter.flush();
+    pipeline.finish();
+  };
+
+  // --- Memory Extraction Logic ---
+  const proposeMemories = async (userText: string, responseText: string) => {
+    if (userText.trim().length < MIN_EXTRACTION_LENGTH) return;
+    const facts = await extractMemoryCandidates(profileRef.current, userText, responseText);
+    if (facts.length > 0) {
+      setMemoryCandidates(prev => [...prev, ...facts.map(fact => ({ ...fact, id: createMemoryId() }))]);
+    }
+  };
+
+  const acceptMemory = async (candidate: MemoryEntry) => {
+    setMemoryCandidates(prev => prev.filter(c => c.id !== candidate.id));
+
+    // Build on the latest profile so several quick approvals don't overwrite each other
+    const memoryEntries = [...getMemoryEntries(profileRef.current), candidate];
+    const updated: AvatarProfile = {
+      ...profileRef.current,
+      memoryEntries,
+      memories: serializeMemoryEntries(memoryEntries),
+    };
+    profileRef.current = updated;
 
+    try {
+      await onProfileUpdated(updated);
     } catch (e) {
-      console.error("Audio playback error", e);
-      setIsPlayingAudio(false);
-      
-      // Attempt fallback if ElevenLabs failed
-      if (profile.elevenLabsVoiceId) {
-          console.log("Falling back to Gemini TTS...");
-          try {
-             const pcmData = await generateSpeech(text, profile.voiceName);
-             if (audioContextRef.current) {
-                 const ctx = audioContextRef.current;
-                 const audioBuffer = await decodeAudioData(new Uint8Array(pcmData), ctx);
-                 const source = ctx.createBufferSource();
-                 source.buffer = audioBuffer;
-                 source.connect(ctx.destination);
-                 source.onended = () => setIsPlayingAudio(false);
-                 setIsPlayingAudio(true);
-                 source.start(0);
-                 audioSourceRef.current = source;
-             }
-          } catch (fallbackError) {
-             console.error("Fallback failed", fallbackError);
-          }
-      }
+      console.error("Failed to save memory", e);
+      // Not saved; offer it again (the re-render resets profileRef to the saved profile)
+      setMemoryCandidates(prev => [...prev, candidate]);
     }
   };
 
+  const dismissMemory = (id: string) => {
+    setMemoryCandidates(prev => prev.filter(c => c.id !== id));
+  };
+
   const handleSubmit = async (textOverride?: string) => {
     const textToProcess = textOverride || inputText;
     if (!textToProcess.trim() || isProcessing) return;
 
     // Add user message
-    const newMessages = [...messages, { role: 'user', text: textToProcess }];
-    setMessages(newMessages);
+    const userMessageSaved = addMessages([{ role: 'user', text: textToProcess, timestamp: Date.now() }]);
     setInputText('');
     setIsProcessing(true);
 
+    // Each completed sentence is synthesized and queued while the rest still streams in
+    const pipeline = startSpeechPipeline();
+    const splitter = createSentenceSplitter(sentence => pipeline.enqueue(sentence));
+    let streamedAny = false;
+
     try {
-      // 1. Get Text Response - passing full profile for the system prompt
-      const responseText = await generateAvatarResponse(profile, textToProcess, messages);
+      // 1. Retrieve the memories relevant to this message
+      const retrievedMemories = await retrieveMemories(profile, textToProcess);
+      setEraPhoto(selectEraPortrait(profile, retrievedMemories));
+
+      // 2. Stream Text Response - only the retrieved memories go into the system prompt,
+      // older turns are represented by the rolling summary
+      setStreamingText('');
+      const responseText = await generateAvatarResponse(
+        profile,
+        textToProcess,
+        getUnsummarizedMessages(messages, thread?.summary),
+        {
+          retrievedMemories,
+          conversationSummary: thread?.summary?.text,
+          onChunk: (delta, textSoFar) => {
+            streamedAny = true;
+            setStreamingText(textSoFar);
+            splitter.push(delta);
+          },
+        }
+      );
+
+      // 3. Speak the remainder (or the fallback reply if nothing was streamed)
+      if (streamedAny) splitter.flush();
+      else pipeline.enqueue(responseText);
+      pipeline.finish();
       
-      setMessages(prev => [...prev, { role: 'model', text: responseText }]);
+      setStreamingText(null);
+      await userMessageSaved;
+      addMessages([{ role: 'model', text: responseText, timestamp: Date.now(), retrievedMemories }])
+        .then(saved => saved && updateSummaryIfNeeded(saved));
 
-      // 2. Play Audio 
-      await playResponseAudio(responseText);
+      // Runs in the background; candidates show up for approval when ready
+      proposeMemories(textToProcess, responseText);
 
     } catch (error) {
       console.error(error);
-      setMessages(prev => [...prev, { role: 'error', text: "I'm having trouble thinking right now." }]);
+      pipeline.stop();
+      addMessages([{ role: 'error', text: "I'm having trouble thinking right now.", timestamp: Date.now() }]);
     } finally {
+      setStreamingText(null);
       setIsProcessing(false);
     }
   };
@@ -158,9 +319,11 @@ const AvatarChat: React.FC<Props> = ({ profile }) => {
       
       try {
           const analysis = await explainResponse(profile, userMsg, msg.text);
-          const updatedMessages = [...messages];
-          updatedMessages[index].explanation = analysis;
-          setMessages(updatedMessages);
+          setMessages(prev => prev.map(m => isSameMessage(m, msg) ? { ...m, explanation: analysis } : m));
+          if (thread) {
+              const saved = await updateMessage(thread.id, msg, { explanation: analysis });
+              setThread(prev => prev?.id === saved.id ? saved : prev);
+          }
       } catch (e) {
           console.error("Explanation failed", e);
       }
@@ -209,11 +372,24 @@ const AvatarChat: React.FC<Props> = ({ profile }) => {
     }
   };
 
-  const renderExplanationBar = (label: string, score: number, colorClass: string, icon: React.ReactNode) => (
+  const renderExplanationBar = (label: string, score: number, colorClass: string, icon: React.ReactNode, calibration?: SourceCalibration) => (
       <div className="mb-2">
           <div className="flex justify-between text-xs text-slate-400 mb-1">
-              <span className="flex items-center gap-1">{icon} {label}</span>
-              <span className="font-mono">{score.toFixed(0)}%</span>
+              <span className="flex items-center gap-1">
+                  {icon} {label}
+                  {calibration && (
+                      <span
+                          className={`ml-1 px-1.5 rounded border text-[9px] uppercase tracking-wider ${GROUNDING_STYLES[calibration.level].className}`}
+                          title={`Similarity ${calibration.similarity.toFixed(2)} vs. baseline ${calibration.baseline.toFixed(2)}; ${Math.round(calibration.confidence * 100)}% confidence it is more than chance`}
+                      >
+                          {GROUNDING_STYLES[calibration.level].label}
+                      </span>
+                  )}
+              </span>
+              <span className="font-mono">
+                  {score.toFixed(0)}%
+                  {calibration && <span className="text-slate-600"> · {Math.round(calibration.confidence * 100)}% conf.</span>}
+              </span>
           </div>
           <div className="h-1.5 w-full bg-slate-800 rounded-full overflow-hidden">
               <div 
@@ -231,7 +407,13 @@ const AvatarChat: React.FC<Props> = ({ profile }) => {
       <div className="flex items-center gap-4 p-4 border-b border-slate-800 bg-slate-800/50">
         <div className="relative w-16 h-16 flex-shrink-0">
              <div className={`absolute inset-0 rounded-full border-2 overflow-hidden bg-black shadow-lg ${isPlayingAudio ? 'border-green-400 shadow-green-400/30' : 'border-slate-600'}`}>
-                <img src={`data:image/png;base64,${profile.imageBase64}`} className="h-full w-full object-cover" alt="Avatar" />
+                <TalkingPortrait
+                  imageBase64={eraPhoto?.base64 || profile.imageBase64}
+                  alt={eraPhoto ? `${profile.name}, ${eraPhoto.era}` : 'Avatar'}
+                  analyser={speechAnalyser}
+                  visemes={visemes}
+                  faceLayout={eraPhoto ? eraPhoto.faceLayout : profile.faceLayout}
+                />
              </div>
         </div>
         
@@ -239,35 +421,105 @@ const AvatarChat: React.FC<Props> = ({ profile }) => {
              <h3 className="text-xl font-bold text-white flex items-center gap-2">
                  {profile.name}
                  <span className="px-2 py-0.5 rounded-full bg-purple-500/20 text-purple-300 text-xs border border-purple-500/30">AI Persona</span>
+                 {eraPhoto?.era && (
+                   <span className="px-2 py-0.5 rounded-full bg-pink-500/10 text-pink-300 text-xs border border-pink-500/30" title={eraPhoto.caption}>{eraPhoto.era}</span>
+                 )}
              </h3>
-             <p className="text-sm text-slate-400 line-clamp-1">{profile.styleSamples.substring(0, 60)}...</p>
+             <p className="text-sm text-slate-400 line-clamp-1">
+                 {thread ? getThreadTitle(thread) : `${profile.styleSamples.substring(0, 60)}...`}
+             </p>
         </div>
+
+        <button
+          onClick={() => setShowSummary(!showSummary)}
+          disabled={!thread?.summary}
+          className={`p-2 rounded-lg transition-colors disabled:opacity-30 ${showSummary ? 'bg-slate-700 text-amber-300' : 'text-slate-400 hover:text-slate-200'}`}
+          title="Conversation So Far"
+        >
+          <ScrollText size={20} />
+        </button>
+
+        <button
+          onClick={() => setShowHistory(!showHistory)}
+          className={`p-2 rounded-lg transition-colors ${showHistory ? 'bg-slate-700 text-purple-300' : 'text-slate-400 hover:text-slate-200'}`}
+          title="Conversation History"
+        >
+          <History size={20} />
+        </button>
       </div>
 
+      {showSummary && thread?.summary && (
+        <div className="px-4 py-3 bg-slate-950/80 border-b border-slate-800 text-xs animate-in fade-in slide-in-from-top-2">
+          <span className="font-mono text-amber-400 block mb-1">
+            CONVERSATION SO FAR · covers {thread.summary.coveredCount} of {thread.messages.length} messages
+          </span>
+          <p className="text-slate-300 italic">{thread.summary.text}</p>
+        </div>
+      )}
+
+      {showHistory && (
+        <ThreadHistory
+          profileId={profile.id}
+          activeThreadId={thread?.id || null}
+          onSelect={openThread}
+          onNewThread={startNewThread}
+          onClose={() => setShowHistory(false)}
+        />
+      )}
+
       {/* Main Chat Area */}
       <div className="flex-1 overflow-y-auto p-4 space-y-6 bg-slate-900/50 scroll-smooth">
         {messages.map((m, idx) => (
           <div key={idx} className={`flex flex-col ${m.role === 'user' ? 'items-end' : 'items-start'}`}>
-            <div className={`max-w-[85%] rounded-2xl px-5 py-3 text-sm leading-relaxed relative group ${
+            <div title={new Date(m.timestamp).toLocaleString()} className={`max-w-[85%] rounded-2xl px-5 py-3 text-sm leading-relaxed relative group ${
               m.role === 'user' 
                 ? 'bg-purple-600 text-white rounded-br-none shadow-md shadow-purple-900/20' 
                 : m.role === 'error' ? 'bg-red-900/50 text-red-200'
                 : 'bg-slate-700 text-slate-200 rounded-bl-none shadow-md'
             }`}>
               {m.text}
+              {m.interrupted && <span className="ml-1 text-[10px] italic opacity-60">(interrupted)</span>}
 
-              {/* Explainability Button (Only for Model) */}
+              {/* Replay and Explainability Buttons (Only for Model) */}
               {m.role === 'model' && (
-                  <button 
-                    onClick={() => handleExplain(idx)}
-                    className="absolute -right-12 top-1/2 -translate-y-1/2 p-2 text-slate-500 hover:text-cyan-400 transition-colors opacity-0 group-hover:opacity-100"
-                    title="Analyze Response Vectors"
-                  >
-                      <BrainCircuit size={20} />
-                  </button>
+                  <div className="absolute -right-12 top-1/2 -translate-y-1/2 flex flex-col opacity-0 group-hover:opacity-100 transition-opacity">
+                      <button
+                        onClick={() => replayMessage(m.text)}
+                        disabled={isProcessing}
+                        className="p-2 text-slate-500 hover:text-green-400 transition-colors disabled:opacity-30"
+                        title="Replay"
+                      >
+                          <Volume2 size={20} />
+                      </button>
+                      <button 
+                        onClick={() => handleExplain(idx)}
+                        className="p-2 text-slate-500 hover:text-cyan-400 transition-colors"
+                        title="Analyze Response Vectors"
+                      >
+                          <BrainCircuit size={20} />
+                      </button>
+                  </div>
               )}
             </div>
 
+            {/* Retrieved Context */}
+            {m.role === 'model' && m.retrievedMemories && m.retrievedMemories.length > 0 && (
+                <details className="max-w-[85%] mt-1 text-xs text-slate-500">
+                    <summary className="cursor-pointer hover:text-green-400 flex items-center gap-1">
+                        <BookOpen size={12} /> {m.retrievedMemories.length} memories recalled
+                    </summary>
+                    <ul className="mt-2 space-y-1 border-l border-green-900/50 pl-3">
+                        {m.retrievedMemories.map(r => (
+                            <li key={r.entry.id} className="text-slate-400">
+                                <span className="font-mono text-green-500 mr-2">{(r.score * 100).toFixed(0)}%</span>
+                                {r.entry.date && <span className="text-slate-500 mr-1">[{r.entry.date}]</span>}
+                                {r.entry.text}
+                            </li>
+                        ))}
+                    </ul>
+                </details>
+            )}
+
             {/* Explainability Dashboard */}
             {explainingIndex === idx && m.role === 'model' && (
                 <div className="max-w-[85%] w-full mt-3 bg-slate-950/80 border border-cyan-900/50 rounded-lg p-4 animate-in fade-in slide-in-from-top-2 backdrop-blur-sm">
@@ -289,9 +541,12 @@ const AvatarChat: React.FC<Props> = ({ profile }) => {
                     ) : (
                         <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
                             <div className="space-y-1">
-                                {renderExplanationBar('Personality Alignment', m.explanation.personalityScore, 'bg-yellow-500', <User size={12}/>)}
-                                {renderExplanationBar('Memory Retrieval', m.explanation.memoriesScore, 'bg-green-500', <BookOpen size={12}/>)}
-                                {renderExplanationBar('Style Match', m.explanation.styleScore, 'bg-blue-500', <Sparkles size={12}/>)}
+                                {renderExplanationBar('Personality Alignment', m.explanation.personalityScore, 'bg-yellow-500', <User size={12}/>, m.explanation.calibration?.personality)}
+                                {renderExplanationBar('Memory Retrieval', m.explanation.memoriesScore, 'bg-green-500', <BookOpen size={12}/>, m.explanation.calibration?.memory)}
+                                {renderExplanationBar('Style Match', m.explanation.styleScore, 'bg-blue-500', <Sparkles size={12}/>, m.explanation.calibration?.style)}
+                                {m.explanation.calibration && (
+                                    <p className="text-[10px] text-slate-600">Scores are similarity above a baseline of unrelated text and other avatars.</p>
+                                )}
                             </div>
                             <div className="bg-slate-900/50 rounded p-3 border border-slate-800">
                                 <span className="text-xs text-slate-500 font-mono block mb-1">COGNITIVE TRACE:</span>
@@ -299,13 +554,32 @@ const AvatarChat: React.FC<Props> = ({ profile }) => {
                                     "{m.explanation.reasoning}"
                                 </p>
                             </div>
+                            {m.explanation.stylometry && (
+                                <div className="md:col-span-2 bg-slate-900/50 rounded p-3 border border-slate-800">
+                                    <StylometryPanel report={m.explanation.stylometry} />
+                                </div>
+                            )}
+                            {m.explanation.passages && (
+                                <div className="md:col-span-2">
+                                    <span className="text-xs text-slate-500 font-mono block mb-2">MOST INFLUENTIAL PASSAGES:</span>
+                                    <PassageAttribution passages={m.explanation.passages} />
+                                </div>
+                            )}
                         </div>
                     )}
                 </div>
             )}
           </div>
         ))}
-        {isProcessing && (
+        {streamingText && (
+            <div className="flex justify-start">
+                <div className="max-w-[85%] rounded-2xl px-5 py-3 text-sm leading-relaxed bg-slate-700 text-slate-200 rounded-bl-none shadow-md">
+                    {streamingText}
+                    <span className="inline-block w-1.5 h-4 ml-1 align-middle bg-purple-400 animate-pulse" />
+                </div>
+            </div>
+        )}
+        {isProcessing && !streamingText && (
             <div className="flex justify-start">
                  <div className="bg-slate-800/50 rounded-2xl px-4 py-3 flex items-center gap-2 text-slate-400 text-xs">
                      <Sparkles size={14} className="animate-spin text-purple-400"/>
@@ -316,6 +590,29 @@ const AvatarChat: React.FC<Props> = ({ profile }) => {
         <div ref={scrollRef}></div>
       </div>
 
+      {/* Learned Memory Approval */}
+      {memoryCandidates.length > 0 && (
+        <div className="px-4 py-3 bg-slate-900 border-t border-slate-800 space-y-2 max-h-40 overflow-y-auto">
+          <span className="text-xs font-bold text-amber-300 flex items-center gap-1 uppercase tracking-wider">
+            <Lightbulb size={14} /> Should {profile.name} remember this?
+          </span>
+          {memoryCandidates.map(candidate => (
+            <div key={candidate.id} className="flex items-center gap-2 bg-slate-800/60 rounded-lg px-3 py-2">
+              <p className="flex-1 text-xs text-slate-300">
+                {candidate.date && <span className="font-mono text-slate-500 mr-1">[{candidate.date}]</span>}
+                {candidate.text}
+              </p>
+              <button onClick={() => acceptMemory(candidate)} className="p-1.5 rounded-md text-green-400 hover:bg-green-900/40" title="Remember">
+                <Check size={16} />
+              </button>
+              <button onClick={() => dismissMemory(candidate.id)} className="p-1.5 rounded-md text-slate-500 hover:bg-slate-700" title="Dismiss">
+                <X size={16} />
+              </button>
+            </div>
+          ))}
+        </div>
+      )}
+
       {/* Input Area */}
       <div className="p-4 bg-slate-800 border-t border-slate-700 flex items-center gap-3">
         <button
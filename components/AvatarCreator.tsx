@@ -1,72 +1,133 @@
 
 import React, { useState } from 'react';
-import { AvatarProfile, VoiceOption } from '../types';
-import { blobToBase64 } from '../utils/audioUtils';
-import { createElevenLabsVoice } from '../services/elevenLabsService';
-import { Loader2, Upload, CheckCircle2, UserCircle2, Mic2, FileText, Sparkles, BookOpen } from 'lucide-react';
+import { AvatarProfile, ContextSettings, MemoryEntry, PortraitPhoto, VoiceOption, VoiceSettings } from '../types';
+import { DEFAULT_CONTEXT_SETTINGS, DEFAULT_ELEVENLABS_MODEL, DEFAULT_VOICE_SETTINGS } from '../constants';
+import { blobToBase64, VoiceQualityReport } from '../utils/audioUtils';
+import { getMemoryEntries, serializeMemoryEntries } from '../utils/memoryUtils';
+import MemoryEditor from './MemoryEditor';
+import PhotoGallery from './PhotoGallery';
+import VoiceManager from './VoiceManager';
+import VoiceSampleStudio from './VoiceSampleStudio';
+import { getClonedSpeechProvider } from '../services/providerRegistry';
+import { preparePortrait, PreparedPortrait } from '../services/portraitService';
+import { toImageDataUrl } from '../utils/imageUtils';
+import { AlertTriangle, Loader2, Upload, CheckCircle2, UserCircle2, Mic2, FileText, Sparkles, BookOpen, SlidersHorizontal, Images } from 'lucide-react';
 
 interface Props {
   onProfileCreated: (profile: AvatarProfile) => void;
+  // When set, the form edits this profile instead of creating a new one
+  initialProfile?: AvatarProfile | null;
 }
 
-const AvatarCreator: React.FC<Props> = ({ onProfileCreated }) => {
-  const [name, setName] = useState('');
-  const [personality, setPersonality] = useState('');
-  const [styleSamples, setStyleSamples] = useState('');
-  const [memories, setMemories] = useState('');
-  const [voice, setVoice] = useState<string>(VoiceOption.Kore);
+const AvatarCreator: React.FC<Props> = ({ onProfileCreated, initialProfile }) => {
+  const isEditing = !!initialProfile;
+
+  const [name, setName] = useState(initialProfile?.name || '');
+  const [personality, setPersonality] = useState(initialProfile?.personality || '');
+  const [styleSamples, setStyleSamples] = useState(initialProfile?.styleSamples || '');
+  const [memoryEntries, setMemoryEntries] = useState<MemoryEntry[]>(initialProfile ? getMemoryEntries(initialProfile) : []);
+  const hasMemories = memoryEntries.length > 0;
+  const [voice, setVoice] = useState<string>(initialProfile?.voiceName || VoiceOption.Kore);
+  
+  const [contextSettings, setContextSettings] = useState<ContextSettings>({
+    ...DEFAULT_CONTEXT_SETTINGS,
+    ...initialProfile?.contextSettings,
+  });
   
-  // Image State
-  const [imageFile, setImageFile] = useState<File | null>(null);
-  const [imagePreview, setImagePreview] = useState<string | null>(null);
+  // Image State - uploads are face-checked, cropped and normalized before use
+  const [portrait, setPortrait] = useState<PreparedPortrait | null>(null);
+  const [imagePreview, setImagePreview] = useState<string | null>(
+    initialProfile ? toImageDataUrl(initialProfile.imageBase64) : null
+  );
+  const [isCheckingImage, setIsCheckingImage] = useState(false);
+  const [imageFeedback, setImageFeedback] = useState<{ message: string; isError: boolean } | null>(null);
+  const hasImage = !!portrait || !!initialProfile?.imageBase64;
+  const [photos, setPhotos] = useState<PortraitPhoto[]>(initialProfile?.photos || []);
 
   // ElevenLabs State
-  const [useElevenLabs, setUseElevenLabs] = useState(false);
-  const [voiceSample, setVoiceSample] = useState<File | null>(null);
+  const [useElevenLabs, setUseElevenLabs] = useState(!!initialProfile?.elevenLabsVoiceId);
+  const [clonedVoiceId, setClonedVoiceId] = useState(initialProfile?.elevenLabsVoiceId);
+  const hasExistingVoice = !!clonedVoiceId;
+  const [voiceSettings, setVoiceSettings] = useState<VoiceSettings>({ ...DEFAULT_VOICE_SETTINGS, ...initialProfile?.voiceSettings });
+  const [voiceModel, setVoiceModel] = useState(initialProfile?.voiceModel || DEFAULT_ELEVENLABS_MODEL);
+  const [voiceSample, setVoiceSample] = useState<Blob | null>(null);
+  const [voiceQuality, setVoiceQuality] = useState<VoiceQualityReport | null>(null);
   
   // Generation State
   const [isGenerating, setIsGenerating] = useState(false);
   const [statusMessage, setStatusMessage] = useState('');
 
-  const handleImageUpload = (e: React.ChangeEvent<HTMLInputElement>) => {
-    if (e.target.files && e.target.files[0]) {
-      const file = e.target.files[0];
-      setImageFile(file);
-      const url = URL.createObjectURL(file);
-      setImagePreview(url);
+  const handleImageUpload = async (e: React.ChangeEvent<HTMLInputElement>) => {
+    const file = e.target.files?.[0];
+    e.target.value = '';
+    if (!file) return;
+
+    setIsCheckingImage(true);
+    setImageFeedback(null);
+    try {
+      const prepared = await preparePortrait(file);
+      setPortrait(prepared);
+      setImagePreview(toImageDataUrl(prepared.base64));
+      if (prepared.warning) setImageFeedback({ message: prepared.warning, isError: false });
+    } catch (err) {
+      setImageFeedback({ message: err instanceof Error ? err.message : 'This photo could not be used.', isError: true });
+    } finally {
+      setIsCheckingImage(false);
     }
   };
 
   const handleCreate = async () => {
-    if (!imageFile || !name || !personality || !styleSamples || !memories) return;
+    if (!hasImage || !name || !personality || !styleSamples || !hasMemories) return;
+
+    if (useElevenLabs && voiceSample && voiceQuality && voiceQuality.verdict !== 'good') {
+      const problems = voiceQuality.checks
+        .filter(check => check.status !== 'good')
+        .map(check => `- ${check.label}: ${check.advice}`)
+        .join('\n');
+      if (!window.confirm(`The voice sample may not give a convincing clone:\n\n${problems}\n\nClone the voice anyway?`)) return;
+    }
 
     try {
       setIsGenerating(true);
-      setStatusMessage('Processing image...');
-      const imageBase64 = await blobToBase64(imageFile);
+      const imageBase64 = portrait ? portrait.base64 : initialProfile!.imageBase64;
+      const faceLayout = portrait ? portrait.faceLayout : initialProfile?.faceLayout;
 
-      let elevenLabsVoiceId = undefined;
+      // Keep an already cloned voice unless a new sample was provided
+      let elevenLabsVoiceId = useElevenLabs ? clonedVoiceId : undefined;
+      let storedVoiceSample = initialProfile?.voiceSample;
 
       // Voice Cloning Flow
       if (useElevenLabs && voiceSample) {
         setStatusMessage('Cloning voice with ElevenLabs...');
         try {
-           // Key is now handled internally in the service file
-           elevenLabsVoiceId = await createElevenLabsVoice(name, voiceSample);
+           const provider = getClonedSpeechProvider();
+           if (!provider.cloneVoice) {
+             throw new Error(`${provider.name} does not support voice cloning`);
+           }
+           elevenLabsVoiceId = await provider.cloneVoice(name, voiceSample);
+           // Keep the original recording so the avatar can be exported or re-cloned later
+           storedVoiceSample = { base64: await blobToBase64(voiceSample), mimeType: voiceSample.type || 'audio/wav' };
         } catch (err: any) {
            throw new Error("Voice Cloning Failed: " + err.message);
         }
       }
 
       const newProfile: AvatarProfile = {
-        id: Date.now().toString(),
+        id: initialProfile?.id || Date.now().toString(),
         name,
         personality,
         styleSamples,
-        memories,
+        memories: serializeMemoryEntries(memoryEntries),
+        memoryEntries,
         imageBase64,
+        faceLayout,
+        photos,
         voiceName: voice,
         elevenLabsVoiceId: elevenLabsVoiceId,
+        voiceSample: storedVoiceSample,
+        voiceSettings: useElevenLabs ? voiceSettings : initialProfile?.voiceSettings,
+        voiceModel: useElevenLabs ? voiceModel : initialProfile?.voiceModel,
+        contextSettings,
       };
 
       onProfileCreated(newProfile);
@@ -83,7 +144,7 @@ const AvatarCreator: React.FC<Props> = ({ onProfileCreated }) => {
     <div className="max-w-2xl mx-auto p-6 bg-slate-800 rounded-xl shadow-xl border border-slate-700 overflow-y-auto max-h-full">
       <h2 className="text-2xl font-bold mb-6 text-white flex items-center gap-2">
         <UserCircle2 className="text-purple-400" />
-        A Memory Avatar
+        {isEditing ? `Edit ${initialProfile!.name}` : 'A Memory Avatar'}
       </h2>
 
       <div className="space-y-6">
@@ -92,15 +153,23 @@ const AvatarCreator: React.FC<Props> = ({ onProfileCreated }) => {
             <label className="block text-sm font-medium text-slate-300 mb-2">1. Face of Loved One</label>
             <div className="flex items-center gap-4">
                 <div className={`relative w-32 h-32 rounded-full bg-slate-700 overflow-hidden border-2 border-dashed border-slate-500 flex items-center justify-center ${!imagePreview ? 'hover:border-purple-400 transition-colors' : ''}`}>
-                    {imagePreview ? (
+                    {isCheckingImage ? (
+                        <Loader2 className="text-purple-400 animate-spin" />
+                    ) : imagePreview ? (
                         <img src={imagePreview} alt="Preview" className="w-full h-full object-cover" />
                     ) : (
                         <Upload className="text-slate-400" />
                     )}
-                    <input type="file" accept="image/*" onChange={handleImageUpload} className="absolute inset-0 opacity-0 cursor-pointer" />
+                    <input type="file" accept="image/*" onChange={handleImageUpload} disabled={isCheckingImage} className="absolute inset-0 opacity-0 cursor-pointer" />
                 </div>
-                <div className="text-xs text-slate-400 flex-1">
-                    Upload a portrait. This image will be animated during the conversation.
+                <div className="text-xs text-slate-400 flex-1 space-y-2">
+                    <p>Upload a portrait with one clearly visible face. It is cropped around the face and animated during the conversation.</p>
+                    {isCheckingImage && <p className="text-purple-300">Checking photo...</p>}
+                    {imageFeedback && (
+                        <p className={`flex items-start gap-1 ${imageFeedback.isError ? 'text-red-300' : 'text-amber-300'}`}>
+                            <AlertTriangle size={14} className="flex-shrink-0 mt-px" /> {imageFeedback.message}
+                        </p>
+                    )}
                 </div>
             </div>
         </div>
@@ -155,14 +224,20 @@ const AvatarCreator: React.FC<Props> = ({ onProfileCreated }) => {
                    Life Story & Memories
                 </label>
                 <p className="text-xs text-slate-500 mb-2">
-                    Paste specific events, biography, or stories here. The AI will treat these as its own real memories.
+                    Add specific events, biography, or stories one at a time. The AI will treat these as its own real memories.
                 </p>
-                <textarea 
-                    value={memories}
-                    onChange={(e) => setMemories(e.target.value)}
-                    className="w-full bg-slate-900 border border-slate-700 rounded-lg p-3 text-white h-32 focus:ring-2 focus:ring-purple-500 outline-none resize-none text-sm"
-                    placeholder="I was born in a small town... I remember the time I..."
-                />
+                <MemoryEditor entries={memoryEntries} onChange={setMemoryEntries} />
+            </div>
+
+            <div>
+                <label className="block text-sm font-medium text-slate-300 mb-1 flex items-center gap-2">
+                   <Images size={16} className="text-pink-400"/>
+                   Photos Through the Years
+                </label>
+                <p className="text-xs text-slate-500 mb-2">
+                    Optional. Tag each photo with a year or era, or link it to memories. When a conversation turns to that time, the avatar shows that photo.
+                </p>
+                <PhotoGallery photos={photos} memoryEntries={memoryEntries} onChange={setPhotos} />
             </div>
 
             <div>
@@ -180,6 +255,41 @@ const AvatarCreator: React.FC<Props> = ({ onProfileCreated }) => {
             </div>
         </div>
 
+        {/* Conversation Memory Settings */}
+        <details className="bg-slate-900/50 p-4 rounded-xl border border-slate-700">
+            <summary className="text-sm font-medium text-slate-200 cursor-pointer flex items-center gap-2">
+                <SlidersHorizontal size={16} className="text-amber-400" />
+                Conversation Memory
+            </summary>
+            <p className="text-[10px] text-slate-500 mt-2 mb-3">
+                Once a conversation grows past the budget, older turns are condensed into a running summary.
+            </p>
+            <div className="grid grid-cols-2 gap-4">
+                <div>
+                    <label className="block text-xs font-medium text-slate-400 mb-1">History Budget (tokens)</label>
+                    <input 
+                        type="number"
+                        min={200}
+                        step={100}
+                        value={contextSettings.historyTokenBudget}
+                        onChange={(e) => setContextSettings(prev => ({ ...prev, historyTokenBudget: Math.max(200, Number(e.target.value) || 0) }))}
+                        className="w-full bg-slate-900 border border-slate-700 rounded-lg p-2 text-white text-sm focus:ring-2 focus:ring-purple-500 outline-none"
+                    />
+                </div>
+                <div>
+                    <label className="block text-xs font-medium text-slate-400 mb-1">Recent Messages Kept Verbatim</label>
+                    <input 
+                        type="number"
+                        min={2}
+                        max={40}
+                        value={contextSettings.recentWindow}
+                        onChange={(e) => setContextSettings(prev => ({ ...prev, recentWindow: Math.min(40, Math.max(2, Number(e.target.value) || 0)) }))}
+                        className="w-full bg-slate-900 border border-slate-700 rounded-lg p-2 text-white text-sm focus:ring-2 focus:ring-purple-500 outline-none"
+                    />
+                </div>
+            </div>
+        </details>
+
         {/* Voice Cloning Section */}
         <div className="bg-slate-900/50 p-4 rounded-xl border border-slate-700">
             <div className="flex items-center justify-between mb-4">
@@ -205,14 +315,27 @@ const AvatarCreator: React.FC<Props> = ({ onProfileCreated }) => {
             {useElevenLabs && (
                 <div className="space-y-4 animate-in fade-in slide-in-from-top-2">
                     <div>
-                         <label className="block text-xs font-medium text-slate-400 mb-1">Voice Sample (Audio File)</label>
-                         <input 
-                            type="file" 
-                            accept="audio/*"
-                            onChange={(e) => setVoiceSample(e.target.files?.[0] || null)}
-                            className="w-full text-sm text-slate-400 file:mr-4 file:py-2 file:px-4 file:rounded-full file:border-0 file:text-xs file:font-semibold file:bg-indigo-600 file:text-white hover:file:bg-indigo-500"
+                         <label className="block text-xs font-medium text-slate-400 mb-1">Voice Sample</label>
+                        <p className="text-[10px] text-slate-500 mb-2">
+                            {hasExistingVoice
+                                ? 'A cloned voice is already attached. Record or upload a new sample only to replace it.'
+                                : 'Record or upload 1-2 minutes of clear speech. Several clips are joined into one sample; trim off noise and long pauses.'}
+                        </p>
+                        <VoiceSampleStudio onChange={(sample, report) => { setVoiceSample(sample); setVoiceQuality(report); }} />
+                    </div>
+                    <div>
+                        <label className="block text-xs font-medium text-slate-400 mb-2">Voice Tuning & Management</label>
+                        <VoiceManager
+                            avatarName={name}
+                            profileId={initialProfile?.id}
+                            voiceId={clonedVoiceId}
+                            voiceSample={initialProfile?.voiceSample}
+                            settings={voiceSettings}
+                            modelId={voiceModel}
+                            onVoiceChange={setClonedVoiceId}
+                            onSettingsChange={setVoiceSettings}
+                            onModelChange={setVoiceModel}
                         />
-                        <p className="text-[10px] text-slate-500 mt-1">Upload a clear 1-2 minute recording of the voice you want to clone.</p>
                     </div>
                 </div>
             )}
@@ -220,7 +343,7 @@ const AvatarCreator: React.FC<Props> = ({ onProfileCreated }) => {
 
         <button
             onClick={handleCreate}
-            disabled={isGenerating || !name || !imageFile || !personality || !styleSamples || !memories || (useElevenLabs && !voiceSample)}
+            disabled={isGenerating || isCheckingImage || !name || !hasImage || !personality || !styleSamples || !hasMemories || (useElevenLabs && !voiceSample && !hasExistingVoice)}
             className="w-full bg-gradient-to-r from-purple-600 to-indigo-600 hover:from-purple-500 hover:to-indigo-500 text-white font-bold py-4 rounded-xl transition-all shadow-lg shadow-purple-900/20 disabled:opacity-50 disabled:cursor-not-allowed flex items-center justify-center gap-2"
         >
             {isGenerating ? (
@@ -231,7 +354,7 @@ const AvatarCreator: React.FC<Props> = ({ onProfileCreated }) => {
             ) : (
                 <>
                     <CheckCircle2 size={20} />
-                    Bring to Life
+                    {isEditing ? 'Save Changes' : 'Bring to Life'}
                 </>
             )}
         </button>
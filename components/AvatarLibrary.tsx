@@ -0,0 +1,140 @@
+import React, { useRef } from 'react';
+import { StoredProfile } from '../types';
+import { toImageDataUrl } from '../utils/imageUtils';
+import { Copy, Download, MessageSquare, Pencil, Plus, Trash2, Upload, Users } from 'lucide-react';
+
+interface Props {
+  profiles: StoredProfile[];
+  activeProfileId: string | null;
+  onSelect: (id: string) => void;
+  onEdit: (id: string) => void;
+  onDuplicate: (id: string) => void;
+  onDelete: (id: string) => void;
+  onExport: (id: string) => void;
+  onImport: (file: File) => void;
+  onCreateNew: () => void;
+}
+
+const AvatarLibrary: React.FC<Props> = ({ profiles, activeProfileId, onSelect, onEdit, onDuplicate, onDelete, onExport, onImport, onCreateNew }) => {
+  const importInputRef = useRef<HTMLInputElement>(null);
+
+  const handleDelete = (record: StoredProfile) => {
+    if (window.confirm(`Delete ${record.profile.name}? This cannot be undone.`)) {
+      onDelete(record.profile.id);
+    }
+  };
+
+  const handleImportFile = (e: React.ChangeEvent<HTMLInputElement>) => {
+    const file = e.target.files?.[0];
+    // Reset so picking the same file again still fires onChange
+    e.target.value = '';
+    if (file) onImport(file);
+  };
+
+  return (
+    <div className="h-full overflow-y-auto">
+      <div className="grid grid-cols-1 sm:grid-cols-2 lg:grid-cols-3 gap-4">
+        {/* New Avatar Tile */}
+        <div className="min-h-[220px] rounded-xl border-2 border-dashed border-slate-700 hover:border-purple-400 flex flex-col transition-colors">
+          <button
+            onClick={onCreateNew}
+            className="flex-1 text-slate-500 hover:text-purple-300 flex flex-col items-center justify-center gap-2 transition-colors"
+          >
+            <Plus size={32} />
+            <span className="text-sm font-medium">New Avatar</span>
+          </button>
+          <button
+            onClick={() => importInputRef.current?.click()}
+            className="py-3 border-t border-slate-700/60 text-xs text-slate-500 hover:text-slate-200 flex items-center justify-center gap-1 transition-colors"
+          >
+            <Upload size={14} /> Import from bundle
+          </button>
+          <input
+            ref={importInputRef}
+            type="file"
+            accept=".json,application/json"
+            onChange={handleImportFile}
+            className="hidden"
+          />
+        </div>
+
+        {profiles.map(record => {
+          const { profile } = record;
+          const isActive = profile.id === activeProfileId;
+          return (
+            <div
+              key={profile.id}
+              className={`rounded-xl bg-slate-800 border p-4 flex flex-col gap-3 shadow-lg transition-colors ${isActive ? 'border-purple-500' : 'border-slate-700'}`}
+            >
+              <div className="flex items-center gap-3">
+                <div className="w-16 h-16 rounded-full overflow-hidden bg-black border-2 border-slate-600 flex-shrink-0">
+                  <img src={toImageDataUrl(profile.imageBase64)} className="h-full w-full object-cover" alt={profile.name} />
+                </div>
+                <div className="min-w-0">
+                  <h3 className="text-lg font-bold text-white truncate">{profile.name}</h3>
+                  <p className="text-xs text-slate-500">
+                    Updated {new Date(record.updatedAt).toLocaleDateString()}
+                  </p>
+                  {profile.elevenLabsVoiceId && (
+                    <span className="text-[10px] text-indigo-300 bg-indigo-500/10 px-2 py-0.5 rounded border border-indigo-500/20">
+                      Cloned Voice
+                    </span>
+                  )}
+                </div>
+              </div>
+
+              <p className="text-xs text-slate-400 line-clamp-2 flex-1">{profile.personality}</p>
+
+              <div className="flex items-center gap-2">
+                <button
+                  onClick={() => onSelect(profile.id)}
+                  className="flex-1 bg-purple-600 hover:bg-purple-500 text-white text-sm font-medium py-2 rounded-lg flex items-center justify-center gap-2 transition-colors"
+                >
+                  <MessageSquare size={16} />
+                  {isActive ? 'Continue' : 'Talk'}
+                </button>
+                <button
+                  onClick={() => onEdit(profile.id)}
+                  className="p-2 rounded-lg bg-slate-700 text-slate-300 hover:bg-slate-600 transition-colors"
+                  title="Edit"
+                >
+                  <Pencil size={16} />
+                </button>
+                <button
+                  onClick={() => onDuplicate(profile.id)}
+                  className="p-2 rounded-lg bg-slate-700 text-slate-300 hover:bg-slate-600 transition-colors"
+                  title="Duplicate"
+                >
+                  <Copy size={16} />
+                </button>
+                <button
+                  onClick={() => onExport(profile.id)}
+                  className="p-2 rounded-lg bg-slate-700 text-slate-300 hover:bg-slate-600 transition-colors"
+                  title="Export"
+                >
+                  <Download size={16} />
+                </button>
+                <button
+                  onClick={() => handleDelete(record)}
+                  className="p-2 rounded-lg bg-slate-700 text-red-300 hover:bg-red-900/50 transition-colors"
+                  title="Delete"
+                >
+                  <Trash2 size={16} />
+                </button>
+              </div>
+            </div>
+          );
+        })}
+      </div>
+
+      {profiles.length === 0 && (
+        <div className="mt-8 flex flex-col items-center text-slate-500 text-sm gap-2">
+          <Users size={24} />
+          No saved avatars yet. Create one to get started.
+        </div>
+      )}
+    </div>
+  );
+};
+
+export default AvatarLibrary;
@@ -0,0 +1,45 @@
+import React, { useEffect, useRef } from 'react';
+import { Caption } from '../utils/captionUtils';
+
+interface Props {
+  captions: Caption[];
+  avatarName: string;
+}
+
+const formatTime = (timestamp: number) =>
+  new Date(timestamp).toLocaleTimeString([], { hour: '2-digit', minute: '2-digit', second: '2-digit' });
+
+/**
+ * Running transcript of a live call, newest at the bottom.
+ */
+const LiveCaptions: React.FC<Props> = ({ captions, avatarName }) => {
+  const endRef = useRef<HTMLDivElement>(null);
+
+  useEffect(() => {
+    endRef.current?.scrollIntoView({ behavior: 'smooth', block: 'nearest' });
+  }, [captions]);
+
+  return (
+    <div className="w-full max-w-2xl max-h-40 overflow-y-auto rounded-xl bg-slate-950/70 border border-slate-800 backdrop-blur-sm p-3 space-y-2 text-sm" aria-live="polite">
+      {captions.length === 0 && (
+        <p className="text-xs text-slate-500 text-center">Captions will appear here as you talk.</p>
+      )}
+      {captions.map(caption => (
+        <div key={caption.id} className="flex gap-2">
+          <span className="text-[10px] font-mono text-slate-600 pt-0.5 flex-shrink-0">{formatTime(caption.startedAt)}</span>
+          <p className={caption.role === 'user' ? 'text-slate-300' : 'text-purple-200'}>
+            <span className={`font-semibold mr-1 ${caption.role === 'user' ? 'text-green-400' : 'text-purple-400'}`}>
+              {caption.role === 'user' ? 'You' : avatarName}:
+            </span>
+            {caption.text}
+            {!caption.final && <span className="inline-block w-1 h-3 ml-1 align-middle bg-slate-400 animate-pulse" />}
+            {caption.interrupted && <span className="ml-1 text-[10px] italic text-slate-500">(interrupted)</span>}
+          </p>
+        </div>
+      ))}
+      <div ref={endRef} />
+    </div>
+  );
+};
+
+export default LiveCaptions;
@@ -1,30 +1,77 @@
 import React, { useEffect, useRef, useState } from 'react';
-import { GoogleGenAI, LiveServerMessage, Modality } from "@google/genai";
-import { AvatarProfile } from '../types';
-import { createPcmBlob, decodeAudioData } from '../utils/audioUtils';
-import { generateElevenLabsSpeech } from '../services/elevenLabsService';
-import { MODELS, AUDIO_SAMPLE_RATE_INPUT, AUDIO_SAMPLE_RATE_OUTPUT } from '../constants';
+import { AvatarProfile, LiveInputMode, PortraitPhoto, RealtimeEvent, RealtimeSession } from '../types';
+import { base64ToBytes, createPcmBlob, decodeAudioData, decodeSpeechAudio } from '../utils/audioUtils';
+import { getClonedSpeechProvider, getRealtimeProvider } from '../services/providerRegistry';
+import { appendMessages, createThread } from '../services/threadService';
+import { retrieveMemories } from '../services/memoryService';
+import { synthesizeCached } from '../services/speechCacheService';
+import { AUDIO_SAMPLE_RATE_INPUT, AUDIO_SAMPLE_RATE_OUTPUT, DEFAULT_LIVE_SETTINGS, LIVE_RECONNECT, VAD } from '../constants';
+import { ProxyError } from '../services/proxyClient';
+import { appendCaption, Caption, captionsToContext, captionsToMessages, closeCaptions, interruptCaptions } from '../utils/captionUtils';
+import {
+  describeLiveSessionStatus,
+  getReconnectDelay,
+  INITIAL_LIVE_SESSION_STATE,
+  LiveSessionAction,
+  liveSessionReducer,
+  LiveSessionState,
+} from '../utils/liveSessionState';
 import { buildSystemPrompt } from '../utils/promptUtils';
-import { Mic, MicOff, PhoneOff, Radio, Zap } from 'lucide-react';
+import { selectEraPortrait } from '../utils/portraitUtils';
+import { MicCapture, startMicCapture } from '../utils/micCapture';
+import { createVoiceActivityDetector } from '../utils/vadUtils';
+import { alignmentToVisemes, createVisemeQueue } from '../utils/visemeUtils';
+import LiveCaptions from './LiveCaptions';
+import TalkingPortrait from './TalkingPortrait';
+import { Captions, CaptionsOff, Hand, Mic, MicOff, PhoneOff, Radio, RefreshCw, Waves } from 'lucide-react';
 
 interface Props {
   profile: AvatarProfile;
   onEndSession: () => void;
+  onProfileUpdated: (profile: AvatarProfile) => Promise<void>;
 }
 
-const LiveSession: React.FC<Props> = ({ profile, onEndSession }) => {
+const INPUT_MODES: { mode: LiveInputMode; label: string; hint: string; icon: React.ReactNode }[] = [
+  { mode: 'open', label: 'Open mic', hint: 'Everything you say is streamed', icon: <Mic size={14} /> },
+  { mode: 'handsFree', label: 'Hands-free', hint: 'Only streams while you are speaking', icon: <Waves size={14} /> },
+  { mode: 'pushToTalk', label: 'Push to talk', hint: 'Hold the button or the space bar to speak', icon: <Hand size={14} /> },
+];
+
+const LiveSession: React.FC<Props> = ({ profile, onEndSession, onProfileUpdated }) => {
   const [micActive, setMicActive] = useState(true);
-  const [status, setStatus] = useState<string>('Initializing...');
+  const [inputMode, setInputMode] = useState<LiveInputMode>(profile.liveSettings?.inputMode || DEFAULT_LIVE_SETTINGS.inputMode);
+  const [isTalkHeld, setIsTalkHeld] = useState(false);
+  const [isUserSpeaking, setIsUserSpeaking] = useState(false);
+  const [captions, setCaptions] = useState<Caption[]>([]);
+  const [showCaptions, setShowCaptions] = useState(true);
+  const [liveState, setLiveState] = useState<LiveSessionState>(INITIAL_LIVE_SESSION_STATE);
   const [isAiSpeaking, setIsAiSpeaking] = useState(false);
   const [error, setError] = useState<string | null>(null);
   const [volumeLevel, setVolumeLevel] = useState(0);
 
   // Audio Contexts & State
-  const inputContextRef = useRef<AudioContext | null>(null);
   const outputContextRef = useRef<AudioContext | null>(null);
-  const streamRef = useRef<MediaStream | null>(null);
-  const processorRef = useRef<ScriptProcessorNode | null>(null);
-  const sourceNodeRef = useRef<MediaStreamAudioSourceNode | null>(null);
+  // Avatar speech is routed through this analyser to drive the portrait's lip sync
+  const [outputAnalyser, setOutputAnalyser] = useState<AnalyserNode | null>(null);
+  const outputAnalyserRef = useRef<AnalyserNode | null>(null);
+  const [visemes] = useState(createVisemeQueue);
+  const [eraPhoto, setEraPhoto] = useState<PortraitPhoto | null>(null);
+  const micCaptureRef = useRef<MicCapture | null>(null);
+
+  // Read from the capture callback, which outlives any single render
+  const micActiveRef = useRef(micActive);
+  const inputModeRef = useRef(inputMode);
+  const talkHeldRef = useRef(false);
+  const isStreamingRef = useRef(false);
+  const preRollRef = useRef<Int16Array[]>([]);
+  // Mic frames arrive far more often than the UI needs; these hold the latest
+  // values so state only changes when something visible does
+  const isUserSpeakingRef = useRef(false);
+  const volumeLevelRef = useRef(0);
+  const volumeFrameRef = useRef<number | undefined>(undefined);
+  const [vad] = useState(() => createVoiceActivityDetector(AUDIO_SAMPLE_RATE_INPUT));
+  micActiveRef.current = micActive;
+  inputModeRef.current = inputMode;
   
   // Audio Scheduling
   const nextStartTimeRef = useRef<number>(0);
@@ -33,35 +80,39 @@ const LiveSession: React.FC<Props> = ({ profile, onEndSession }) => {
   // Transcription Accumulator for ElevenLabs
   const currentTranscriptRef = useRef<string>('');
 
-  // Session
-  const sessionPromiseRef = useRef<Promise<any> | null>(null);
+  // Call transcript, saved as its own conversation thread as turns complete
+  const captionsRef = useRef<Caption[]>([]);
+  const savedCaptionCountRef = useRef(0);
+  const callThreadRef = useRef<Promise<string> | null>(null);
+  const callStartedAtRef = useRef(Date.now());
 
-  const useCustomVoice = !!(profile.elevenLabsVoiceId);
+  // Session. Each connection gets an id; callbacks from an older one are ignored.
+  const sessionPromiseRef = useRef<Promise<RealtimeSession> | null>(null);
+  const liveStateRef = useRef<LiveSessionState>(INITIAL_LIVE_SESSION_STATE);
+  const connectionIdRef = useRef(0);
+  const resumptionHandleRef = useRef<string | undefined>(undefined);
+  const handleRefreshedRef = useRef(false); // The current connection has sent a resumption handle
+  const retryTimerRef = useRef<number | undefined>(undefined);
 
-  useEffect(() => {
-    startSession();
-    return () => cleanup();
-    // eslint-disable-next-line react-hooks/exhaustive-deps
-  }, []);
+  const useCustomVoice = !!(profile.elevenLabsVoiceId);
 
   const cleanup = () => {
-    if (streamRef.current) {
-        streamRef.current.getTracks().forEach(track => track.stop());
-    }
-    
-    if (inputContextRef.current && inputContextRef.current.state !== 'closed') {
-        inputContextRef.current.close();
-    }
+    window.clearTimeout(retryTimerRef.current);
+    transition({ type: 'end' });
+    closeConnection();
+
+    updateCaptions(closeCaptions);
+    saveCaptions();
+
+    micCaptureRef.current?.stop();
+    micCaptureRef.current = null;
+    if (volumeFrameRef.current !== undefined) cancelAnimationFrame(volumeFrameRef.current);
+    volumeFrameRef.current = undefined;
+
     if (outputContextRef.current && outputContextRef.current.state !== 'closed') {
         outputContextRef.current.close();
     }
     
-    if (processorRef.current) {
-        processorRef.current.disconnect();
-        processorRef.current.onaudioprocess = null;
-    }
-    if (sourceNodeRef.current) sourceNodeRef.current.disconnect();
-    
     stopAllAudio();
   };
 
@@ -70,100 +121,280 @@ const LiveSession: React.FC<Props> = ({ profile, onEndSession }) => {
          try { source.stop(); } catch(e) {}
      });
      audioSourcesRef.current.clear();
+     visemes.clear();
      setIsAiSpeaking(false);
      nextStartTimeRef.current = 0;
   };
 
-  const startSession = async () => {
-    try {
-      setStatus('Connecting...');
-      
-      const AudioContextClass = window.AudioContext || window.webkitAudioContext;
-      inputContextRef.current = new AudioContextClass({ sampleRate: AUDIO_SAMPLE_RATE_INPUT });
-      outputContextRef.current = new AudioContextClass({ sampleRate: AUDIO_SAMPLE_RATE_OUTPUT });
-      
-      const ai = new GoogleGenAI({ apiKey: process.env.API_KEY });
-      
-      // Build the new strict system prompt
-      const systemInstruction = buildSystemPrompt(profile);
-
-      sessionPromiseRef.current = ai.live.connect({
-        model: MODELS.LIVE,
-        config: {
-            systemInstruction: systemInstruction,
-            responseModalities: [Modality.AUDIO],
-            // Enable output transcription to get text for ElevenLabs
-            outputAudioTranscription: {}, 
-            speechConfig: {
-                voiceConfig: { prebuiltVoiceConfig: { voiceName: profile.voiceName || 'Kore' }}
-            }
-        },
-        callbacks: {
-            onopen: async () => {
-                setStatus('Connected');
-                await startMicrophone();
-            },
-            onmessage: handleMessage,
-            onclose: () => {
-                setStatus('Disconnected');
-                console.log('Session closed');
-            },
-            onerror: (e) => {
-                console.error('Session error', e);
-                setError('Connection error');
-                setStatus('Error');
-            }
-        }
-      });
+  const updateCaptions = (update: (captions: Caption[]) => Caption[]) => {
+    captionsRef.current = update(captionsRef.current);
+    setCaptions(captionsRef.current);
+  };
 
-    } catch (e: any) {
-      console.error(e);
-      setError(e.message || "Failed to start session");
-      setStatus('Error');
+  // The call's thread is created with its first saved turn, so silent calls leave no record
+  const getCallThreadId = (): Promise<string> => {
+    if (!callThreadRef.current) {
+      const title = `Voice call, ${new Date(callStartedAtRef.current).toLocaleString()}`;
+      callThreadRef.current = createThread(profile.id, [], title).then(thread => thread.id);
+      callThreadRef.current.catch(() => { callThreadRef.current = null; });
     }
+    return callThreadRef.current;
+  };
+
+  // Writes finished captions to the call's thread, where the transcript can be reviewed later
+  const saveCaptions = () => {
+    const finished = captionsRef.current.slice(savedCaptionCountRef.current).filter(caption => caption.final);
+    savedCaptionCountRef.current += finished.length;
+    const messages = captionsToMessages(finished);
+    if (messages.length === 0) return;
+
+    getCallThreadId()
+      .then(threadId => appendMessages(threadId, messages))
+      .catch(e => console.error("Failed to save transcript", e));
+  };
+
+  // Shows the photo from the time of life the user just asked about
+  const updateEraPortrait = (userText: string) => {
+    if (!profile.photos?.length || !userText.trim()) return;
+    retrieveMemories(profile, userText)
+      .then(retrieved => setEraPhoto(selectEraPortrait(profile, retrieved)))
+      .catch(e => console.warn("Era portrait lookup failed", e));
+  };
+
+  const transition = (action: LiveSessionAction): LiveSessionState => {
+    liveStateRef.current = liveSessionReducer(liveStateRef.current, action);
+    setLiveState(liveStateRef.current);
+    return liveStateRef.current;
+  };
+
+  const startSession = () => {
+    liveStateRef.current = INITIAL_LIVE_SESSION_STATE;
+    setLiveState(INITIAL_LIVE_SESSION_STATE);
+    callStartedAtRef.current = Date.now();
+
+    const AudioContextClass = window.AudioContext || window.webkitAudioContext;
+    outputContextRef.current = new AudioContextClass({ sampleRate: AUDIO_SAMPLE_RATE_OUTPUT });
+
+    const analyser = outputContextRef.current.createAnalyser();
+    analyser.fftSize = 1024;
+    analyser.connect(outputContextRef.current.destination);
+    outputAnalyserRef.current = analyser;
+    setOutputAnalyser(analyser);
+
+    connect();
+  };
+
+  const connect = () => {
+    const connectionId = ++connectionIdRef.current;
+    const isCurrent = () => connectionId === connectionIdRef.current;
+    const resumptionHandle = resumptionHandleRef.current;
+    handleRefreshedRef.current = false;
+
+    // A resumed session remembers the call itself; a fresh one is told what was said so far
+    const recentContext = resumptionHandle
+      ? undefined
+      : captionsToContext(captionsRef.current, profile.name, LIVE_RECONNECT.CONTEXT_CAPTIONS) || undefined;
+
+    const sessionPromise = getRealtimeProvider().connect({
+      systemInstruction: buildSystemPrompt(profile, undefined, recentContext),
+      voiceName: profile.voiceName,
+      resumptionHandle,
+      onOpen: () => {
+        if (isCurrent()) startMicrophone();
+      },
+      onEvent: (event) => {
+        if (!isCurrent()) return;
+        // Live once the server actually answers, not when the socket opens
+        if (liveStateRef.current.status !== 'live') transition({ type: 'live' });
+        handleEvent(event);
+      },
+      onClose: (reason) => {
+        if (isCurrent()) handleDrop(reason || 'The connection was closed');
+      },
+      onError: (e) => {
+        if (!isCurrent()) return;
+        console.error('Session error', e);
+        handleDrop(e.message);
+      },
+    });
+    sessionPromiseRef.current = sessionPromise;
+
+    sessionPromise.catch((e: unknown) => {
+      if (!isCurrent()) return;
+      console.error('Failed to connect', e);
+      // Rejected requests (bad key, bad request) fail the same way every time
+      const isPermanent = e instanceof ProxyError && e.status >= 400 && e.status < 500 && e.status !== 429;
+      if (isPermanent) {
+        connectionIdRef.current++;
+        transition({ type: 'fail', reason: e.message });
+      } else {
+        handleDrop((e instanceof Error && e.message) || 'Could not connect');
+      }
+    });
+  };
+
+  // Stops listening to the current connection and closes it, if it is still up
+  const closeConnection = () => {
+    connectionIdRef.current++;
+    const session = sessionPromiseRef.current;
+    sessionPromiseRef.current = null;
+    isStreamingRef.current = false;
+    session?.then(s => s.close()).catch(() => {});
+  };
+
+  const handleDrop = (reason: string) => {
+    // A handle the failed connection never confirmed may be what got it rejected
+    if (!handleRefreshedRef.current) resumptionHandleRef.current = undefined;
+    closeConnection();
+
+    // Turns cut off by the drop are kept as they stand
+    updateCaptions(closeCaptions);
+    saveCaptions();
+    currentTranscriptRef.current = '';
+
+    const next = transition({ type: 'drop', reason });
+    if (next.status === 'reconnecting') {
+      retryTimerRef.current = window.setTimeout(connect, getReconnectDelay(next.attempt));
+    }
+  };
+
+  const retryNow = () => {
+    window.clearTimeout(retryTimerRef.current);
+    transition({ type: 'retry' });
+    connect();
   };
 
   const startMicrophone = async () => {
-     if (!inputContextRef.current) return;
-     
+     // The microphone stays open across reconnects
+     if (micCaptureRef.current) return;
      try {
-         const stream = await navigator.mediaDevices.getUserMedia({ audio: true });
-         streamRef.current = stream;
-         
-         const ctx = inputContextRef.current;
-         const source = ctx.createMediaStreamSource(stream);
-         const processor = ctx.createScriptProcessor(4096, 1, 1);
-         
-         processor.onaudioprocess = (e) => {
-             if (!micActive) return;
-             
-             const inputData = e.inputBuffer.getChannelData(0);
-             updateVolumeVisualizer(inputData);
-
-             const pcmBlob = createPcmBlob(inputData);
-             if (sessionPromiseRef.current) {
-                 sessionPromiseRef.current.then(session => {
-                     session.sendRealtimeInput({ media: pcmBlob });
-                 });
-             }
-         };
-
-         source.connect(processor);
-         processor.connect(ctx.destination);
-         
-         sourceNodeRef.current = source;
-         processorRef.current = processor;
-         
+         // 16 kHz PCM16 frames from the audio thread, whatever the device rate
+         const capture = await startMicCapture({ onFrame: handleMicFrame });
+         if (liveStateRef.current.status === 'ended' || micCaptureRef.current) {
+             capture.stop();
+             return;
+         }
+         micCaptureRef.current = capture;
      } catch (e) {
          console.error("Mic Error", e);
          setError("Microphone access denied");
      }
   };
 
-  const handleMessage = async (message: LiveServerMessage) => {
+  const withSession = (action: (session: RealtimeSession) => void) => {
+      sessionPromiseRef.current?.then(action).catch(() => {});
+  };
+
+  // Decides per frame whether the server hears it, depending on the input mode
+  const handleMicFrame = (pcm: Int16Array, level: number) => {
+      const speaking = vad.process(pcm);
+      if (speaking !== isUserSpeakingRef.current) {
+          isUserSpeakingRef.current = speaking;
+          setIsUserSpeaking(speaking);
+      }
+
+      const mode = inputModeRef.current;
+      const shouldStream = micActiveRef.current && (
+          mode === 'open'
+          || (mode === 'handsFree' && speaking)
+          || (mode === 'pushToTalk' && talkHeldRef.current)
+      );
+      updateVolumeVisualizer(micActiveRef.current ? level : 0);
+
+      // Nothing is sent between connections; the new session starts from the next frame
+      if (liveStateRef.current.status !== 'live') {
+          preRollRef.current = [];
+          return;
+      }
+
+      if (!shouldStream) {
+          if (isStreamingRef.current) {
+              isStreamingRef.current = false;
+              withSession(session => session.endAudioStream());
+          }
+          // Keep the last moments before speech so detection does not cut off the first syllable
+          preRollRef.current = [...preRollRef.current, pcm].slice(-VAD.PRE_ROLL_FRAMES);
+          return;
+      }
+
+      const frames = isStreamingRef.current || mode === 'open' ? [pcm] : [...preRollRef.current, pcm];
+      preRollRef.current = [];
+      isStreamingRef.current = true;
+      withSession(session => frames.forEach(frame => session.sendAudio(createPcmBlob(frame))));
+  };
+
+  // One session per mount. The ref hands the effect the latest functions, so
+  // cleanup sees current state without restarting the session on every render.
+  const lifecycleRef = useRef({ startSession, cleanup });
+  lifecycleRef.current = { startSession, cleanup };
+
+  useEffect(() => {
+    lifecycleRef.current.startSession();
+    return () => lifecycleRef.current.cleanup();
+  }, []);
+
+  const changeInputMode = (mode: LiveInputMode) => {
+      setInputMode(mode);
+      onProfileUpdated({ ...profile, liveSettings: { ...profile.liveSettings, inputMode: mode } })
+          .catch(e => console.error("Failed to save input mode", e));
+  };
+
+  const setTalkHeld = (held: boolean) => {
+      talkHeldRef.current = held;
+      setIsTalkHeld(held);
+  };
+
+  // Space bar push-to-talk, ignored while typing in a field
+  useEffect(() => {
+      if (inputMode !== 'pushToTalk') return;
+      const isTyping = (e: KeyboardEvent) => e.target instanceof HTMLElement && !!e.target.closest('input, textarea, select, [contenteditable]');
+      const onKeyDown = (e: KeyboardEvent) => {
+          if (e.code !== 'Space' || e.repeat || isTyping(e)) return;
+          e.preventDefault();
+          setTalkHeld(true);
+      };
+      const onKeyUp = (e: KeyboardEvent) => {
+          if (e.code !== 'Space') return;
+          setTalkHeld(false);
+      };
+      window.addEventListener('keydown', onKeyDown);
+      window.addEventListener('keyup', onKeyUp);
+      return () => {
+          window.removeEventListener('keydown', onKeyDown);
+          window.removeEventListener('keyup', onKeyUp);
+          setTalkHeld(false);
+      };
+  }, [inputMode]);
+
+  const handleEvent = async (event: RealtimeEvent) => {
+      if (event.resumptionHandle) {
+          resumptionHandleRef.current = event.resumptionHandle;
+          handleRefreshedRef.current = true;
+      }
+      // The server is about to drop this connection; move to a new one while the handle is fresh
+      if (event.goAway) {
+          handleDrop('The server is ending this connection');
+          return;
+      }
+
+      // Captions for both speakers, saved to the call transcript turn by turn
+      if (event.inputTranscript) {
+          updateCaptions(captions => appendCaption(captions, 'user', event.inputTranscript!));
+      }
+      if (event.outputTranscript) {
+          updateCaptions(captions => appendCaption(captions, 'model', event.outputTranscript!));
+      }
+      if (event.turnComplete) {
+          const turn = captionsRef.current.slice(savedCaptionCountRef.current);
+          updateEraPortrait(turn.filter(caption => caption.role === 'user').map(caption => caption.text).join(' '));
+          updateCaptions(closeCaptions);
+          saveCaptions();
+      }
+
       // Handle Interruption
-      if (message.serverContent?.interrupted) {
+      if (event.interrupted) {
           console.log("Interrupted!");
+          updateCaptions(interruptCaptions);
           stopAllAudio();
           currentTranscriptRef.current = ''; 
           return;
@@ -172,12 +403,12 @@ const LiveSession: React.FC<Props> = ({ profile, onEndSession }) => {
       // --- Path A: Custom ElevenLabs Voice ---
       if (useCustomVoice) {
           // 1. Accumulate Text
-          if (message.serverContent?.outputTranscription?.text) {
-              currentTranscriptRef.current += message.serverContent.outputTranscription.text;
+          if (event.outputTranscript) {
+              currentTranscriptRef.current += event.outputTranscript;
           }
 
           // 2. On Turn Complete -> Generate & Play
-          if (message.serverContent?.turnComplete) {
+          if (event.turnComplete) {
               const textToSpeak = currentTranscriptRef.current;
               currentTranscriptRef.current = ''; // Reset for next turn
 
@@ -187,17 +418,18 @@ const LiveSession: React.FC<Props> = ({ profile, onEndSession }) => {
                       stopAllAudio();
                       setIsAiSpeaking(true);
                       
-                      // Key handled internally in service
-                      const audioData = await generateElevenLabsSpeech(profile.elevenLabsVoiceId, textToSpeak);
+                      const audio = await synthesizeCached(getClonedSpeechProvider(), textToSpeak, profile.elevenLabsVoiceId, {
+                          settings: profile.voiceSettings,
+                          modelId: profile.voiceModel,
+                      });
                       
                       if (outputContextRef.current) {
                           const ctx = outputContextRef.current;
-                          // Standard browser decode for MP3/WAV
-                          const audioBuffer = await ctx.decodeAudioData(audioData);
+                          const audioBuffer = await decodeSpeechAudio(audio, ctx);
                           
                           const source = ctx.createBufferSource();
                           source.buffer = audioBuffer;
-                          source.connect(ctx.destination);
+                          source.connect(outputAnalyserRef.current || ctx.destination);
                           
                           source.onended = () => {
                               audioSourcesRef.current.delete(source);
@@ -205,6 +437,7 @@ const LiveSession: React.FC<Props> = ({ profile, onEndSession }) => {
                           };
 
                           source.start(0);
+                          if (audio.alignment) visemes.add(alignmentToVisemes(audio.alignment, ctx.currentTime));
                           audioSourcesRef.current.add(source);
                       }
                   } catch (err) {
@@ -218,15 +451,12 @@ const LiveSession: React.FC<Props> = ({ profile, onEndSession }) => {
       }
 
       // --- Path B: Native Gemini Audio (Low Latency) ---
-      const base64Audio = message.serverContent?.modelTurn?.parts?.[0]?.inlineData?.data;
+      const base64Audio = event.audioBase64;
       if (base64Audio && outputContextRef.current) {
           const ctx = outputContextRef.current;
           
           try {
-             const rawBytes = atob(base64Audio);
-             const len = rawBytes.length;
-             const bytes = new Uint8Array(len);
-             for(let i=0; i<len; i++) bytes[i] = rawBytes.charCodeAt(i);
+             const bytes = base64ToBytes(base64Audio);
              
              const audioBuffer = await decodeAudioData(bytes, ctx, AUDIO_SAMPLE_RATE_OUTPUT);
              
@@ -234,7 +464,7 @@ const LiveSession: React.FC<Props> = ({ profile, onEndSession }) => {
              
              const source = ctx.createBufferSource();
              source.buffer = audioBuffer;
-             source.connect(ctx.destination);
+             source.connect(outputAnalyserRef.current || ctx.destination);
              
              source.onended = () => {
                  audioSourcesRef.current.delete(source);
@@ -255,13 +485,14 @@ const LiveSession: React.FC<Props> = ({ profile, onEndSession }) => {
       }
   };
 
-  const updateVolumeVisualizer = (data: Float32Array) => {
-      let sum = 0;
-      for (let i = 0; i < data.length; i += 50) {
-          sum += Math.abs(data[i]);
-      }
-      const avg = sum / (data.length / 50);
-      setVolumeLevel(prev => prev * 0.8 + avg * 20); 
+  // Smooths every frame, but renders at most once per animation frame
+  const updateVolumeVisualizer = (level: number) => {
+      volumeLevelRef.current = volumeLevelRef.current * 0.8 + level * 16;
+      if (volumeFrameRef.current !== undefined) return;
+      volumeFrameRef.current = requestAnimationFrame(() => {
+          volumeFrameRef.current = undefined;
+          setVolumeLevel(volumeLevelRef.current);
+      });
   };
 
   const toggleMic = () => {
@@ -276,8 +507,25 @@ const LiveSession: React.FC<Props> = ({ profile, onEndSession }) => {
         
         {/* Connection Status Indicator */}
         <div className="absolute top-4 right-4 flex items-center gap-2 px-3 py-1 rounded-full bg-slate-900/50 border border-slate-700 backdrop-blur-sm">
-            <div className={`w-2 h-2 rounded-full ${status === 'Connected' ? 'bg-green-500 animate-pulse' : 'bg-yellow-500'}`} />
-            <span className="text-xs text-slate-400 font-medium uppercase tracking-wider">{status}</span>
+            <div className={`w-2 h-2 rounded-full ${
+                liveState.status === 'live' ? 'bg-green-500 animate-pulse' : liveState.status === 'failed' ? 'bg-red-500' : 'bg-yellow-500 animate-pulse'
+            }`} />
+            <span className="text-xs text-slate-400 font-medium uppercase tracking-wider">{describeLiveSessionStatus(liveState)}</span>
+        </div>
+
+        {/* Input Mode */}
+        <div className="absolute top-4 left-4 flex rounded-full bg-slate-900/50 border border-slate-700 backdrop-blur-sm p-0.5">
+            {INPUT_MODES.map(({ mode, label, hint, icon }) => (
+                <button
+                    key={mode}
+                    onClick={() => changeInputMode(mode)}
+                    title={hint}
+                    className={`flex items-center gap-1 px-2.5 py-1 rounded-full text-[10px] font-medium uppercase tracking-wider transition-colors ${inputMode === mode ? 'bg-slate-700 text-white' : 'text-slate-500 hover:text-slate-300'}`}
+                >
+                    {icon}
+                    <span className="hidden md:inline">{label}</span>
+                </button>
+            ))}
         </div>
 
         {/* Main Avatar */}
@@ -296,10 +544,12 @@ const LiveSession: React.FC<Props> = ({ profile, onEndSession }) => {
                 <div className="absolute inset-[3px] rounded-full bg-slate-950 z-10" />
                 
                 <div className={`relative z-20 w-full h-full rounded-full overflow-hidden border-4 transition-colors duration-300 ${isAiSpeaking ? 'border-transparent' : 'border-slate-800'}`}>
-                    <img 
-                        src={`data:image/png;base64,${profile.imageBase64}`} 
-                        className="h-full w-full object-cover" 
-                        alt="Avatar" 
+                    <TalkingPortrait
+                        imageBase64={eraPhoto?.base64 || profile.imageBase64}
+                        alt={eraPhoto ? `${profile.name}, ${eraPhoto.era}` : 'Avatar'}
+                        analyser={outputAnalyser}
+                        visemes={visemes}
+                        faceLayout={eraPhoto ? eraPhoto.faceLayout : profile.faceLayout}
                     />
                 </div>
             </div>
@@ -325,6 +575,38 @@ const LiveSession: React.FC<Props> = ({ profile, onEndSession }) => {
                 )
             )}
         </div>
+        {micActive && inputMode !== 'open' && (
+            <div className={`mt-2 text-[10px] uppercase tracking-wider ${isTalkHeld || (inputMode === 'handsFree' && isUserSpeaking) ? 'text-green-400' : 'text-slate-500'}`}>
+                {inputMode === 'pushToTalk'
+                    ? (isTalkHeld ? 'Talking...' : 'Hold space or the talk button to speak')
+                    : (isUserSpeaking ? 'Hearing you' : 'Waiting for you to speak')}
+            </div>
+        )}
+
+        {showCaptions && (
+            <div className="mt-6 w-full flex justify-center">
+                <LiveCaptions captions={captions} avatarName={profile.name} />
+            </div>
+        )}
+
+        {liveState.status === 'reconnecting' && liveState.reason && (
+            <div className="mt-4 px-4 py-2 bg-amber-900/40 border border-amber-500/30 rounded-lg text-amber-200 text-sm">
+                Connection lost: {liveState.reason}. Your captions so far are kept.
+            </div>
+        )}
+
+        {liveState.status === 'failed' && (
+            <div className="mt-4 px-4 py-2 bg-red-900/50 border border-red-500/30 rounded-lg text-red-200 text-sm flex items-center gap-3">
+                <Radio size={16} />
+                <span>
+                    {liveState.attempt >= LIVE_RECONNECT.MAX_ATTEMPTS ? `Could not reconnect after ${liveState.attempt} attempts` : 'Could not connect'}
+                    {liveState.reason && `: ${liveState.reason}`}
+                </span>
+                <button onClick={retryNow} className="flex items-center gap-1 px-3 py-1 rounded-full bg-red-600 hover:bg-red-500 text-white text-xs font-semibold">
+                    <RefreshCw size={12} /> Retry
+                </button>
+            </div>
+        )}
 
         {error && (
             <div className="mt-4 px-4 py-2 bg-red-900/50 border border-red-500/30 rounded-lg text-red-200 text-sm flex items-center gap-2">
@@ -347,6 +629,30 @@ const LiveSession: React.FC<Props> = ({ profile, onEndSession }) => {
             {micActive ? <Mic size={28} /> : <MicOff size={28} />}
         </button>
 
+        {inputMode === 'pushToTalk' && (
+            <button
+                onPointerDown={(e) => { e.currentTarget.setPointerCapture(e.pointerId); setTalkHeld(true); }}
+                onPointerUp={() => setTalkHeld(false)}
+                onPointerCancel={() => setTalkHeld(false)}
+                disabled={!micActive}
+                className={`px-6 py-5 rounded-full font-semibold text-sm uppercase tracking-wider transition-all duration-200 select-none touch-none disabled:opacity-40 ${
+                    isTalkHeld
+                    ? 'bg-green-500 text-white scale-110 shadow-lg shadow-green-500/30'
+                    : 'bg-slate-800 text-slate-200 hover:bg-slate-700 border border-slate-600'
+                }`}
+            >
+                {isTalkHeld ? 'Talking' : 'Hold to talk'}
+            </button>
+        )}
+
+        <button
+            onClick={() => setShowCaptions(!showCaptions)}
+            className={`p-4 rounded-full transition-all duration-200 border ${showCaptions ? 'bg-slate-700 text-white border-slate-500' : 'bg-slate-800 text-slate-400 hover:text-white border-slate-600'}`}
+            title={showCaptions ? 'Hide captions' : 'Show captions'}
+        >
+            {showCaptions ? <Captions size={22} /> : <CaptionsOff size={22} />}
+        </button>
+
         <button 
             onClick={onEndSession}
             className="p-6 rounded-full bg-red-600 text-white hover:bg-red-500 transition-all duration-200 transform hover:scale-110 shadow-lg shadow-red-600/30"
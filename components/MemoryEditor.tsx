@@ -0,0 +1,250 @@
+import React, { useState } from 'react';
+import { MemoryEntry, MemoryTone } from '../types';
+import { chunkMemoryText, createMemoryEntry, createMemoryId, getMemoryYear, sortMemoriesChronologically } from '../utils/memoryUtils';
+import { CalendarClock, ClipboardPaste, Pencil, Plus, Trash2, Users, X } from 'lucide-react';
+
+interface Props {
+  entries: MemoryEntry[];
+  onChange: (entries: MemoryEntry[]) => void;
+}
+
+interface DraftState {
+  title: string;
+  text: string;
+  date: string;
+  people: string;
+  tone: MemoryTone;
+  source: string;
+}
+
+const EMPTY_DRAFT: DraftState = {
+  title: '',
+  text: '',
+  date: '',
+  people: '',
+  tone: MemoryTone.Neutral,
+  source: '',
+};
+
+const TONE_COLORS: Record<MemoryTone, string> = {
+  [MemoryTone.Joyful]: 'text-yellow-300 border-yellow-500/30 bg-yellow-500/10',
+  [MemoryTone.Tender]: 'text-pink-300 border-pink-500/30 bg-pink-500/10',
+  [MemoryTone.Proud]: 'text-indigo-300 border-indigo-500/30 bg-indigo-500/10',
+  [MemoryTone.Funny]: 'text-orange-300 border-orange-500/30 bg-orange-500/10',
+  [MemoryTone.Bittersweet]: 'text-purple-300 border-purple-500/30 bg-purple-500/10',
+  [MemoryTone.Sad]: 'text-blue-300 border-blue-500/30 bg-blue-500/10',
+  [MemoryTone.Neutral]: 'text-slate-300 border-slate-500/30 bg-slate-500/10',
+};
+
+const toDraft = (entry: MemoryEntry): DraftState => ({
+  title: entry.title || '',
+  text: entry.text,
+  date: entry.date || '',
+  people: entry.people?.join(', ') || '',
+  tone: entry.tone || MemoryTone.Neutral,
+  source: entry.source || '',
+});
+
+// Groups the timeline by decade; eras without a year go under "Undated"
+const getDecadeLabel = (entry: MemoryEntry): string => {
+  const year = getMemoryYear(entry);
+  return year === undefined ? 'Undated' : `${Math.floor(year / 10) * 10}s`;
+};
+
+const MemoryEditor: React.FC<Props> = ({ entries, onChange }) => {
+  const [draft, setDraft] = useState<DraftState>(EMPTY_DRAFT);
+  const [editingId, setEditingId] = useState<string | null>(null);
+  const [showImport, setShowImport] = useState(false);
+  const [importText, setImportText] = useState('');
+
+  const updateDraft = (patch: Partial<DraftState>) => setDraft(prev => ({ ...prev, ...patch }));
+
+  const resetDraft = () => {
+    setDraft(EMPTY_DRAFT);
+    setEditingId(null);
+  };
+
+  const handleSave = () => {
+    if (!draft.text.trim()) return;
+
+    const entry: MemoryEntry = {
+      id: editingId || createMemoryId(),
+      title: draft.title.trim() || undefined,
+      text: draft.text.trim(),
+      date: draft.date.trim() || undefined,
+      people: draft.people.split(',').map(p => p.trim()).filter(Boolean),
+      tone: draft.tone,
+      source: draft.source.trim() || undefined,
+    };
+
+    onChange(editingId
+      ? entries.map(e => e.id === editingId ? { ...e, ...entry } : e)
+      : [...entries, entry]);
+    resetDraft();
+  };
+
+  const handleEdit = (entry: MemoryEntry) => {
+    setEditingId(entry.id);
+    setDraft(toDraft(entry));
+  };
+
+  const handleDelete = (id: string) => {
+    onChange(entries.filter(e => e.id !== id));
+    if (editingId === id) resetDraft();
+  };
+
+  const handleImport = () => {
+    const imported = chunkMemoryText(importText).map(text => ({ ...createMemoryEntry(text), id: createMemoryId() }));
+    if (imported.length === 0) return;
+    onChange([...entries, ...imported]);
+    setImportText('');
+    setShowImport(false);
+  };
+
+  const timeline = sortMemoriesChronologically(entries);
+
+  return (
+    <div className="space-y-4">
+      {/* Entry Form */}
+      <div className="bg-slate-900 border border-slate-700 rounded-lg p-3 space-y-2">
+        <div className="grid grid-cols-1 md:grid-cols-2 gap-2">
+          <input
+            type="text"
+            value={draft.title}
+            onChange={(e) => updateDraft({ title: e.target.value })}
+            placeholder="Title, e.g. First day at the bakery"
+            className="bg-slate-950 border border-slate-700 rounded-lg p-2 text-sm text-white outline-none focus:ring-2 focus:ring-purple-500"
+          />
+          <input
+            type="text"
+            value={draft.date}
+            onChange={(e) => updateDraft({ date: e.target.value })}
+            placeholder="Year or era, e.g. 1965, 1960s, Childhood"
+            className="bg-slate-950 border border-slate-700 rounded-lg p-2 text-sm text-white outline-none focus:ring-2 focus:ring-purple-500"
+          />
+          <input
+            type="text"
+            value={draft.people}
+            onChange={(e) => updateDraft({ people: e.target.value })}
+            placeholder="People involved (comma separated)"
+            className="bg-slate-950 border border-slate-700 rounded-lg p-2 text-sm text-white outline-none focus:ring-2 focus:ring-purple-500"
+          />
+          <div className="flex gap-2">
+            <select
+              value={draft.tone}
+              onChange={(e) => updateDraft({ tone: e.target.value as MemoryTone })}
+              className="flex-1 bg-slate-950 border border-slate-700 rounded-lg p-2 text-sm text-white outline-none focus:ring-2 focus:ring-purple-500"
+            >
+              {Object.values(MemoryTone).map(tone => (
+                <option key={tone} value={tone}>{tone}</option>
+              ))}
+            </select>
+            <input
+              type="text"
+              value={draft.source}
+              onChange={(e) => updateDraft({ source: e.target.value })}
+              placeholder="Shared by"
+              className="flex-1 min-w-0 bg-slate-950 border border-slate-700 rounded-lg p-2 text-sm text-white outline-none focus:ring-2 focus:ring-purple-500"
+            />
+          </div>
+        </div>
+        <textarea
+          value={draft.text}
+          onChange={(e) => updateDraft({ text: e.target.value })}
+          placeholder="I remember the time I..."
+          className="w-full bg-slate-950 border border-slate-700 rounded-lg p-2 text-sm text-white h-20 outline-none resize-none focus:ring-2 focus:ring-purple-500"
+        />
+        <div className="flex items-center gap-2">
+          <button
+            onClick={handleSave}
+            disabled={!draft.text.trim()}
+            className="flex items-center gap-1 px-3 py-1.5 rounded-lg bg-green-600 hover:bg-green-500 text-white text-xs font-semibold disabled:opacity-50 disabled:cursor-not-allowed"
+          >
+            <Plus size={14} />
+            {editingId ? 'Update Memory' : 'Add Memory'}
+          </button>
+          {editingId && (
+            <button onClick={resetDraft} className="flex items-center gap-1 px-3 py-1.5 rounded-lg text-slate-400 hover:text-slate-200 text-xs">
+              <X size={14} /> Cancel
+            </button>
+          )}
+          <button
+            onClick={() => setShowImport(!showImport)}
+            className="ml-auto flex items-center gap-1 px-3 py-1.5 rounded-lg text-slate-400 hover:text-slate-200 text-xs"
+          >
+            <ClipboardPaste size={14} /> Paste free text
+          </button>
+        </div>
+
+        {showImport && (
+          <div className="space-y-2 pt-2 border-t border-slate-800">
+            <p className="text-[10px] text-slate-500">Each line or paragraph becomes its own memory. Years mentioned in the text are picked up automatically.</p>
+            <textarea
+              value={importText}
+              onChange={(e) => setImportText(e.target.value)}
+              placeholder="I was born in a small town... I remember the time I..."
+              className="w-full bg-slate-950 border border-slate-700 rounded-lg p-2 text-sm text-white h-24 outline-none resize-none focus:ring-2 focus:ring-purple-500"
+            />
+            <button
+              onClick={handleImport}
+              disabled={!importText.trim()}
+              className="px-3 py-1.5 rounded-lg bg-slate-700 hover:bg-slate-600 text-white text-xs font-semibold disabled:opacity-50"
+            >
+              Split into memories
+            </button>
+          </div>
+        )}
+      </div>
+
+      {/* Timeline */}
+      {timeline.length === 0 ? (
+        <p className="text-xs text-slate-500 italic">No memories yet. Add the first one above.</p>
+      ) : (
+        <ol className="relative border-l border-slate-700 ml-2 space-y-3">
+          {timeline.map((entry, i) => {
+            const decade = getDecadeLabel(entry);
+            const showDecade = i === 0 || getDecadeLabel(timeline[i - 1]) !== decade;
+            return (
+              <li key={entry.id} className="ml-4">
+                {showDecade && (
+                  <span className="block -ml-4 mb-2 text-[10px] font-bold uppercase tracking-wider text-green-400 flex items-center gap-1">
+                    <CalendarClock size={12} /> {decade}
+                  </span>
+                )}
+                <div className={`absolute -left-1.5 mt-3 w-3 h-3 rounded-full border-2 border-slate-900 ${editingId === entry.id ? 'bg-purple-400' : 'bg-green-500'}`} />
+                <div className="group bg-slate-900/70 border border-slate-800 rounded-lg p-3">
+                  <div className="flex items-start gap-2">
+                    <div className="flex-1 min-w-0">
+                      <div className="flex items-center flex-wrap gap-2">
+                        {entry.date && <span className="text-xs font-mono text-slate-400">{entry.date}</span>}
+                        {entry.title && <span className="text-sm font-semibold text-white">{entry.title}</span>}
+                        {entry.tone && entry.tone !== MemoryTone.Neutral && (
+                          <span className={`text-[10px] px-1.5 py-0.5 rounded border ${TONE_COLORS[entry.tone]}`}>{entry.tone}</span>
+                        )}
+                      </div>
+                      <p className="text-xs text-slate-300 mt-1 line-clamp-3">{entry.text}</p>
+                      {(entry.people?.length || entry.source) && (
+                        <p className="text-[10px] text-slate-500 mt-1 flex items-center gap-1">
+                          {entry.people?.length ? <><Users size={10} /> {entry.people.join(', ')}</> : null}
+                          {entry.source && <span className="ml-2">Shared by {entry.source}</span>}
+                        </p>
+                      )}
+                    </div>
+                    <button onClick={() => handleEdit(entry)} className="p-1 text-slate-500 hover:text-slate-200 opacity-0 group-hover:opacity-100" title="Edit">
+                      <Pencil size={14} />
+                    </button>
+                    <button onClick={() => handleDelete(entry.id)} className="p-1 text-slate-500 hover:text-red-300 opacity-0 group-hover:opacity-100" title="Delete">
+                      <Trash2 size={14} />
+                    </button>
+                  </div>
+                </div>
+              </li>
+            );
+          })}
+        </ol>
+      )}
+    </div>
+  );
+};
+
+export default MemoryEditor;
@@ -0,0 +1,59 @@
+import React from 'react';
+import { AttributedPassage, AttributionSource } from '../types';
+import { BookOpen, Sparkles, User } from 'lucide-react';
+
+interface Props {
+  passages: AttributedPassage[];
+}
+
+// Same colours as the score bars above the list
+const SOURCES: Record<AttributionSource, { label: string; icon: React.ReactNode; text: string; mark: string }> = {
+  memory: { label: 'Memory', icon: <BookOpen size={10} />, text: 'text-green-400', mark: 'bg-green-500/25 text-green-100' },
+  style: { label: 'Style', icon: <Sparkles size={10} />, text: 'text-blue-400', mark: 'bg-blue-500/25 text-blue-100' },
+  personality: { label: 'Personality', icon: <User size={10} />, text: 'text-yellow-400', mark: 'bg-yellow-500/25 text-yellow-100' },
+};
+
+// Shows the passage inside the memory or paragraph it came from, with the passage marked
+const renderInContext = ({ text, context }: AttributedPassage, markClass: string) => {
+  const start = context ? context.indexOf(text) : -1;
+  if (!context || start < 0 || context === text) {
+    return <mark className={`${markClass} rounded px-0.5`}>{text}</mark>;
+  }
+  return (
+    <>
+      <span className="text-slate-500">{context.slice(0, start)}</span>
+      <mark className={`${markClass} rounded px-0.5`}>{text}</mark>
+      <span className="text-slate-500">{context.slice(start + text.length)}</span>
+    </>
+  );
+};
+
+/**
+ * The profile passages a reply is most similar to, best first, so the user
+ * can see which memory sentence or style excerpt shaped it.
+ */
+const PassageAttribution: React.FC<Props> = ({ passages }) => {
+  if (passages.length === 0) {
+    return <p className="text-xs text-slate-500">No profile passages to compare against.</p>;
+  }
+
+  return (
+    <ul className="space-y-2">
+      {passages.map((passage, i) => {
+        const source = SOURCES[passage.source];
+        return (
+          <li key={i} className="text-xs bg-slate-900/50 border border-slate-800 rounded p-2">
+            <div className="flex items-center gap-2 mb-1 text-[10px] uppercase tracking-wider">
+              <span className={`flex items-center gap-1 font-semibold ${source.text}`}>{source.icon} {source.label}</span>
+              {passage.label && <span className="text-slate-500 normal-case tracking-normal truncate">{passage.label}</span>}
+              <span className="ml-auto font-mono text-slate-400" title="Cosine similarity to the reply">{passage.similarity.toFixed(2)}</span>
+            </div>
+            <p className="leading-relaxed">{renderInContext(passage, source.mark)}</p>
+          </li>
+        );
+      })}
+    </ul>
+  );
+};
+
+export default PassageAttribution;
@@ -0,0 +1,123 @@
+import React, { useState } from 'react';
+import { MemoryEntry, PortraitPhoto } from '../types';
+import { preparePortrait } from '../services/portraitService';
+import { toImageDataUrl } from '../utils/imageUtils';
+import { createMemoryId, sortMemoriesChronologically } from '../utils/memoryUtils';
+import { AlertTriangle, ImagePlus, Link2, Loader2, Trash2 } from 'lucide-react';
+
+interface Props {
+  photos: PortraitPhoto[];
+  memoryEntries: MemoryEntry[];
+  onChange: (photos: PortraitPhoto[]) => void;
+}
+
+const describeMemory = (entry: MemoryEntry): string => {
+  const label = entry.title || entry.text.slice(0, 60);
+  return entry.date ? `${entry.date} · ${label}` : label;
+};
+
+const PhotoGallery: React.FC<Props> = ({ photos, memoryEntries, onChange }) => {
+  const [isChecking, setIsChecking] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  const updatePhoto = (id: string, patch: Partial<PortraitPhoto>) => {
+    onChange(photos.map(photo => photo.id === id ? { ...photo, ...patch } : photo));
+  };
+
+  const toggleMemoryLink = (photo: PortraitPhoto, memoryId: string) => {
+    const linked = photo.memoryIds || [];
+    updatePhoto(photo.id, {
+      memoryIds: linked.includes(memoryId) ? linked.filter(id => id !== memoryId) : [...linked, memoryId],
+    });
+  };
+
+  const handleUpload = async (e: React.ChangeEvent<HTMLInputElement>) => {
+    const file = e.target.files?.[0];
+    e.target.value = '';
+    if (!file) return;
+
+    setIsChecking(true);
+    setError(null);
+    try {
+      // Same face check and framing as the main portrait, so any photo can be animated
+      const prepared = await preparePortrait(file);
+      onChange([...photos, { id: createMemoryId(), base64: prepared.base64, faceLayout: prepared.faceLayout, era: '' }]);
+      if (prepared.warning) setError(prepared.warning);
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'This photo could not be used.');
+    } finally {
+      setIsChecking(false);
+    }
+  };
+
+  const timeline = sortMemoriesChronologically(memoryEntries);
+
+  return (
+    <div className="space-y-3">
+      <div className="grid grid-cols-1 sm:grid-cols-2 gap-3">
+        {photos.map(photo => (
+          <div key={photo.id} className="bg-slate-900 border border-slate-700 rounded-lg p-2 flex gap-3">
+            <img src={toImageDataUrl(photo.base64)} alt={photo.era || 'Photo'} className="w-16 h-16 rounded-lg object-cover flex-shrink-0" />
+            <div className="flex-1 min-w-0 space-y-1">
+              <input
+                type="text"
+                value={photo.era}
+                onChange={(e) => updatePhoto(photo.id, { era: e.target.value })}
+                placeholder="Year or era, e.g. 1965, Childhood"
+                className={`w-full bg-slate-950 border rounded p-1 text-xs text-white outline-none focus:ring-1 focus:ring-purple-500 ${photo.era.trim() ? 'border-slate-700' : 'border-amber-500/50'}`}
+              />
+              <input
+                type="text"
+                value={photo.caption || ''}
+                onChange={(e) => updatePhoto(photo.id, { caption: e.target.value || undefined })}
+                placeholder="Caption (optional)"
+                className="w-full bg-slate-950 border border-slate-700 rounded p-1 text-xs text-white outline-none focus:ring-1 focus:ring-purple-500"
+              />
+              {timeline.length > 0 && (
+                <details className="text-[10px] text-slate-400">
+                  <summary className="cursor-pointer flex items-center gap-1 hover:text-slate-200">
+                    <Link2 size={10} /> {photo.memoryIds?.length || 0} linked memories
+                  </summary>
+                  <div className="mt-1 max-h-28 overflow-y-auto space-y-0.5">
+                    {timeline.map(entry => (
+                      <label key={entry.id} className="flex items-start gap-1 cursor-pointer">
+                        <input
+                          type="checkbox"
+                          checked={photo.memoryIds?.includes(entry.id) || false}
+                          onChange={() => toggleMemoryLink(photo, entry.id)}
+                          className="mt-0.5 accent-purple-500"
+                        />
+                        <span className="line-clamp-1">{describeMemory(entry)}</span>
+                      </label>
+                    ))}
+                  </div>
+                </details>
+              )}
+            </div>
+            <button
+              onClick={() => onChange(photos.filter(p => p.id !== photo.id))}
+              className="self-start p-1 text-slate-500 hover:text-red-300"
+              title="Remove photo"
+            >
+              <Trash2 size={14} />
+            </button>
+          </div>
+        ))}
+
+        <label className={`min-h-[80px] rounded-lg border-2 border-dashed border-slate-700 hover:border-purple-400 text-slate-500 hover:text-purple-300 flex items-center justify-center gap-2 text-xs transition-colors ${isChecking ? 'cursor-wait' : 'cursor-pointer'}`}>
+          {isChecking ? <Loader2 size={16} className="animate-spin" /> : <ImagePlus size={16} />}
+          {isChecking ? 'Checking photo...' : 'Add a photo from another time'}
+          <input type="file" accept="image/*" onChange={handleUpload} disabled={isChecking} className="hidden" />
+        </label>
+      </div>
+
+      {error && (
+        <p className="text-xs text-amber-300 flex items-start gap-1">
+          <AlertTriangle size={14} className="flex-shrink-0 mt-px" /> {error}
+        </p>
+      )}
+    </div>
+  );
+};
+
+export default PhotoGallery;
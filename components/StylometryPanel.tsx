@@ -0,0 +1,49 @@
+import React from 'react';
+import { StylometryReport } from '../types';
+import { PenLine } from 'lucide-react';
+
+interface Props {
+  report: StylometryReport;
+}
+
+const barColor = (similarity: number) =>
+  similarity >= 0.75 ? 'bg-green-500' : similarity >= 0.5 ? 'bg-amber-500' : 'bg-red-500';
+
+/**
+ * How the reply compares with the style samples feature by feature, so it is
+ * visible whether the avatar writes like the person and not just about the same things.
+ */
+const StylometryPanel: React.FC<Props> = ({ report }) => (
+  <div>
+    <div className="flex justify-between items-center text-xs text-slate-400 mb-2">
+      <span className="flex items-center gap-1"><PenLine size={12} /> Stylometric Voice Match</span>
+      <span className="font-mono">{report.score}%</span>
+    </div>
+    <table className="w-full text-[10px] text-slate-400">
+      <thead>
+        <tr className="text-slate-600 text-left">
+          <th className="font-normal pb-1">Feature</th>
+          <th className="font-normal pb-1">Style samples</th>
+          <th className="font-normal pb-1">This reply</th>
+          <th className="font-normal pb-1 w-16">Match</th>
+        </tr>
+      </thead>
+      <tbody>
+        {report.features.map(feature => (
+          <tr key={feature.key} className="border-t border-slate-800 align-top">
+            <td className="py-1 pr-2 text-slate-300 whitespace-nowrap">{feature.label}</td>
+            <td className="py-1 pr-2">{feature.sample}</td>
+            <td className="py-1 pr-2">{feature.reply}</td>
+            <td className="py-1">
+              <div className="h-1.5 mt-1 w-full bg-slate-800 rounded-full overflow-hidden" title={`${Math.round(feature.similarity * 100)}%`}>
+                <div className={`h-full rounded-full ${barColor(feature.similarity)}`} style={{ width: `${feature.similarity * 100}%` }} />
+              </div>
+            </td>
+          </tr>
+        ))}
+      </tbody>
+    </table>
+  </div>
+);
+
+export default StylometryPanel;
@@ -0,0 +1,51 @@
+import React, { useEffect, useRef } from 'react';
+import { FaceLayout } from '../types';
+import { loadImage, toImageDataUrl } from '../utils/imageUtils';
+import { createMouthDriver, createPortraitAnimator } from '../utils/portraitAnimator';
+import { VisemeQueue } from '../utils/visemeUtils';
+
+interface Props {
+  imageBase64: string;
+  alt: string;
+  // Taps the speech output; the mouth stays closed until one is provided
+  analyser?: AnalyserNode | null;
+  visemes?: VisemeQueue;
+  faceLayout?: FaceLayout;
+  className?: string;
+}
+
+/**
+ * Animated portrait: lip sync from the playback audio (and TTS timings when
+ * available), blinking and idle head motion.
+ */
+const TalkingPortrait: React.FC<Props> = ({ imageBase64, alt, analyser, visemes, faceLayout, className = '' }) => {
+  const canvasRef = useRef<HTMLCanvasElement>(null);
+
+  useEffect(() => {
+    const canvas = canvasRef.current;
+    if (!canvas) return;
+
+    const getMouthOpenness = analyser ? createMouthDriver(analyser, visemes) : () => 0;
+    let animator: ReturnType<typeof createPortraitAnimator> | null = null;
+    let cancelled = false;
+
+    loadImage(toImageDataUrl(imageBase64))
+      .then(image => {
+        if (!cancelled) animator = createPortraitAnimator(canvas, image, getMouthOpenness, faceLayout);
+      })
+      .catch(e => console.error("Failed to load portrait", e));
+
+    const observer = new ResizeObserver(() => animator?.resize());
+    observer.observe(canvas);
+
+    return () => {
+      cancelled = true;
+      observer.disconnect();
+      animator?.stop();
+    };
+  }, [imageBase64, analyser, visemes, faceLayout]);
+
+  return <canvas ref={canvasRef} role="img" aria-label={alt} className={`block w-full h-full ${className}`} />;
+};
+
+export default TalkingPortrait;
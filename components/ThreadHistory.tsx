@@ -0,0 +1,161 @@
+import React, { useEffect, useState } from 'react';
+import { ConversationThread, ThreadSearchResult } from '../types';
+import { deleteThread, getThreadTitle, listThreads, renameThread, searchThreads } from '../services/threadService';
+import { AlertTriangle, MessageSquarePlus, Pencil, Search, Trash2, X } from 'lucide-react';
+
+interface Props {
+  profileId: string;
+  activeThreadId: string | null;
+  onSelect: (thread: ConversationThread) => void;
+  onNewThread: () => void;
+  onClose: () => void;
+}
+
+const ThreadHistory: React.FC<Props> = ({ profileId, activeThreadId, onSelect, onNewThread, onClose }) => {
+  const [threads, setThreads] = useState<ConversationThread[]>([]);
+  const [query, setQuery] = useState('');
+  const [results, setResults] = useState<ThreadSearchResult[]>([]);
+  const [error, setError] = useState<string | null>(null);
+
+  const reportError = (failure: string, e: unknown) => {
+    console.error(failure, e);
+    setError(`${failure}: ${e instanceof Error ? e.message : 'Unknown error'}`);
+  };
+
+  const refresh = async () => {
+    try {
+      setThreads(await listThreads(profileId));
+    } catch (e) {
+      reportError("Failed to load conversations", e);
+    }
+  };
+
+  useEffect(() => {
+    refresh();
+  }, [profileId, activeThreadId]);
+
+  useEffect(() => {
+    if (!query.trim()) {
+      setResults([]);
+      return;
+    }
+    let cancelled = false;
+    searchThreads(profileId, query)
+      .then(found => {
+        if (!cancelled) setResults(found);
+      })
+      .catch(e => {
+        if (!cancelled) reportError("Search failed", e);
+      });
+    return () => { cancelled = true; };
+  }, [profileId, query]);
+
+  const handleRename = async (thread: ConversationThread) => {
+    const title = window.prompt('Rename conversation', getThreadTitle(thread));
+    if (title === null) return;
+    setError(null);
+    try {
+      await renameThread(thread.id, title);
+    } catch (e) {
+      reportError("Failed to rename conversation", e);
+    }
+    refresh();
+  };
+
+  const handleDelete = async (thread: ConversationThread) => {
+    if (!window.confirm(`Delete "${getThreadTitle(thread)}"?`)) return;
+    setError(null);
+    try {
+      await deleteThread(thread.id);
+      if (thread.id === activeThreadId) onNewThread();
+    } catch (e) {
+      reportError("Failed to delete conversation", e);
+    }
+    refresh();
+  };
+
+  return (
+    <div className="absolute inset-y-0 left-0 w-full sm:w-80 z-30 bg-slate-950/95 border-r border-slate-800 backdrop-blur-sm flex flex-col animate-in fade-in slide-in-from-left-2">
+      <div className="flex items-center justify-between p-4 border-b border-slate-800">
+        <h4 className="text-sm font-bold text-slate-200">Conversations</h4>
+        <div className="flex items-center gap-1">
+          <button onClick={onNewThread} className="p-2 text-slate-400 hover:text-purple-300" title="New Conversation">
+            <MessageSquarePlus size={18} />
+          </button>
+          <button onClick={onClose} className="p-2 text-slate-400 hover:text-slate-200" title="Close">
+            <X size={18} />
+          </button>
+        </div>
+      </div>
+
+      <div className="p-3 border-b border-slate-800">
+        <div className="flex items-center gap-2 bg-slate-900 border border-slate-700 rounded-lg px-3 py-2">
+          <Search size={14} className="text-slate-500" />
+          <input
+            type="text"
+            value={query}
+            onChange={(e) => setQuery(e.target.value)}
+            placeholder="Search past conversations..."
+            className="flex-1 bg-transparent text-sm text-white outline-none"
+          />
+        </div>
+      </div>
+
+      {error && (
+        <p className="mx-3 mt-3 text-xs text-amber-300 flex items-start gap-1">
+          <AlertTriangle size={14} className="flex-shrink-0 mt-px" /> {error}
+        </p>
+      )}
+
+      <div className="flex-1 overflow-y-auto p-2 space-y-1">
+        {query.trim() ? (
+          results.length === 0 ? (
+            <p className="text-xs text-slate-500 p-3">No matches.</p>
+          ) : (
+            results.map((result, i) => (
+              <button
+                key={`${result.thread.id}-${result.messageIndex}-${i}`}
+                onClick={() => onSelect(result.thread)}
+                className="w-full text-left p-3 rounded-lg hover:bg-slate-800 transition-colors"
+              >
+                <span className="block text-xs font-semibold text-purple-300 truncate">{getThreadTitle(result.thread)}</span>
+                <span className="block text-xs text-slate-400 mt-1 line-clamp-2">{result.snippet}</span>
+              </button>
+            ))
+          )
+        ) : (
+          threads.map(thread => (
+            <div
+              key={thread.id}
+              className={`group flex items-center gap-2 p-3 rounded-lg cursor-pointer transition-colors ${thread.id === activeThreadId ? 'bg-slate-800' : 'hover:bg-slate-900'}`}
+              onClick={() => onSelect(thread)}
+            >
+              <div className="flex-1 min-w-0">
+                <span className="block text-sm text-slate-200 truncate">{getThreadTitle(thread)}</span>
+                <span className="block text-[10px] text-slate-500">
+                  {new Date(thread.updatedAt).toLocaleString()} · {thread.messages.length} messages
+                </span>
+              </div>
+              <button
+                onClick={(e) => { e.stopPropagation(); handleRename(thread); }}
+                className="p-1 text-slate-500 hover:text-slate-200 opacity-0 group-hover:opacity-100"
+                title="Rename"
+              >
+                <Pencil size={14} />
+              </button>
+              <button
+                onClick={(e) => { e.stopPropagation(); handleDelete(thread); }}
+                className="p-1 text-slate-500 hover:text-red-300 opacity-0 group-hover:opacity-100"
+                title="Delete"
+              >
+                <Trash2 size={14} />
+              </button>
+            </div>
+          ))
+        )}
+      </div>
+    </div>
+  );
+};
+
+export default ThreadHistory;
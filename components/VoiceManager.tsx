@@ -0,0 +1,227 @@
+import React, { useEffect, useRef, useState } from 'react';
+import { ClonedVoice, MediaAsset, VoiceSettings } from '../types';
+import { DEFAULT_VOICE_SETTINGS, ELEVENLABS_MODELS, VOICE_PREVIEW_TEXT } from '../constants';
+import { getClonedSpeechProvider } from '../services/providerRegistry';
+import { listProfiles } from '../services/profileService';
+import { base64ToBytes, decodeSpeechAudio } from '../utils/audioUtils';
+import { AlertTriangle, Check, Loader2, Play, RefreshCw, RotateCcw, Square, Trash2 } from 'lucide-react';
+
+interface Props {
+  avatarName: string;
+  profileId?: string; // Unset while creating a new avatar
+  voiceId?: string;
+  voiceSample?: MediaAsset; // Stored recording, for re-cloning
+  settings: VoiceSettings;
+  modelId: string;
+  onVoiceChange: (voiceId: string | undefined) => void;
+  onSettingsChange: (settings: VoiceSettings) => void;
+  onModelChange: (modelId: string) => void;
+}
+
+const SLIDERS: { key: 'stability' | 'similarityBoost' | 'style'; label: string; hint: string }[] = [
+  { key: 'stability', label: 'Stability', hint: 'Lower sounds more expressive, higher more even' },
+  { key: 'similarityBoost', label: 'Similarity', hint: 'How closely to match the original recording' },
+  { key: 'style', label: 'Style', hint: 'Exaggerates the speaking style; can reduce stability' },
+];
+
+/**
+ * Tunes, previews and replaces an avatar's cloned voice, and lists the voices
+ * in the account so ones no avatar uses any more can be deleted.
+ */
+const VoiceManager: React.FC<Props> = ({
+  avatarName, profileId, voiceId, voiceSample, settings, modelId, onVoiceChange, onSettingsChange, onModelChange,
+}) => {
+  const provider = getClonedSpeechProvider();
+  const [voices, setVoices] = useState<ClonedVoice[] | null>(null);
+  const [usedBy, setUsedBy] = useState<Record<string, string[]>>({});
+  const [busy, setBusy] = useState<string | null>(null); // What is in progress, e.g. 'list' or 'preview:<voiceId>'
+  const [playingId, setPlayingId] = useState<string | null>(null);
+  const [error, setError] = useState<string | null>(null);
+
+  const contextRef = useRef<AudioContext | null>(null);
+  const sourceRef = useRef<AudioBufferSourceNode | null>(null);
+
+  useEffect(() => {
+    return () => {
+      sourceRef.current?.stop();
+      contextRef.current?.close();
+    };
+  }, []);
+
+  const run = async (task: string, action: () => Promise<void>, failure: string) => {
+    setBusy(task);
+    setError(null);
+    try {
+      await action();
+    } catch (e) {
+      console.error(failure, e);
+      setError(`${failure}: ${e instanceof Error ? e.message : 'Unknown error'}`);
+    } finally {
+      setBusy(null);
+    }
+  };
+
+  const loadVoices = () => run('list', async () => {
+    const [accountVoices, profiles] = await Promise.all([provider.listVoices!(), listProfiles()]);
+    // Other avatars only; this one's voice comes from the form, which may be unsaved
+    const owners: Record<string, string[]> = {};
+    profiles
+      .filter(record => record.profile.id !== profileId && record.profile.elevenLabsVoiceId)
+      .forEach(({ profile }) => {
+        (owners[profile.elevenLabsVoiceId!] ||= []).push(profile.name);
+      });
+    setUsedBy(owners);
+    setVoices(accountVoices.sort((a, b) => (b.createdAt || 0) - (a.createdAt || 0)));
+  }, 'Could not load voices');
+
+  const stopPreview = () => {
+    sourceRef.current?.stop();
+    sourceRef.current = null;
+    setPlayingId(null);
+  };
+
+  const preview = (id: string) => run(`preview:${id}`, async () => {
+    stopPreview();
+    const audio = await provider.synthesize(VOICE_PREVIEW_TEXT, id, { settings, modelId });
+    if (!contextRef.current) {
+      const AudioContextClass = window.AudioContext || window.webkitAudioContext;
+      contextRef.current = new AudioContextClass();
+    }
+    const ctx = contextRef.current;
+    const source = ctx.createBufferSource();
+    source.buffer = await decodeSpeechAudio(audio, ctx);
+    source.connect(ctx.destination);
+    source.onended = () => setPlayingId(current => current === id ? null : current);
+    source.start();
+    sourceRef.current = source;
+    setPlayingId(id);
+  }, 'Preview failed');
+
+  const reclone = () => run('reclone', async () => {
+    const sample = new Blob([base64ToBytes(voiceSample!.base64)], { type: voiceSample!.mimeType });
+    const newVoiceId = await provider.cloneVoice!(avatarName || 'Avatar', sample);
+    onVoiceChange(newVoiceId);
+    if (voices) await loadVoices();
+  }, 'Re-cloning failed');
+
+  const remove = (voice: ClonedVoice) => {
+    if (!window.confirm(`Delete the voice "${voice.name}" from your ElevenLabs account? This cannot be undone.`)) return;
+    run(`delete:${voice.voiceId}`, async () => {
+      await provider.deleteVoice!(voice.voiceId);
+      if (voice.voiceId === voiceId) onVoiceChange(undefined);
+      setVoices(prev => prev && prev.filter(v => v.voiceId !== voice.voiceId));
+    }, 'Could not delete voice');
+  };
+
+  const renderPreviewButton = (id: string) => (
+    <button
+      onClick={() => playingId === id ? stopPreview() : preview(id)}
+      disabled={!!busy}
+      className="p-1 text-indigo-300 hover:text-indigo-200 disabled:opacity-50"
+      title={playingId === id ? 'Stop' : 'Preview with current settings'}
+    >
+      {busy === `preview:${id}` ? <Loader2 size={12} className="animate-spin" /> : playingId === id ? <Square size={12} /> : <Play size={12} />}
+    </button>
+  );
+
+  return (
+    <div className="space-y-3">
+      {voiceId && (
+        <div className="flex items-center gap-2 text-xs text-slate-300">
+          {renderPreviewButton(voiceId)}
+          <span className="flex-1">Cloned voice attached</span>
+          {voiceSample && provider.cloneVoice && (
+            <button onClick={reclone} disabled={!!busy} className="flex items-center gap-1 text-[10px] text-slate-400 hover:text-white disabled:opacity-50" title="Clone again from the saved recording">
+              {busy === 'reclone' ? <Loader2 size={10} className="animate-spin" /> : <RefreshCw size={10} />} Re-clone from saved sample
+            </button>
+          )}
+        </div>
+      )}
+
+      <div className="grid grid-cols-1 sm:grid-cols-2 gap-x-4 gap-y-2">
+        {SLIDERS.map(({ key, label, hint }) => (
+          <label key={key} className="block text-[10px] text-slate-400" title={hint}>
+            <span className="flex justify-between">{label}<span className="text-slate-500">{settings[key].toFixed(2)}</span></span>
+            <input
+              type="range"
+              min={0}
+              max={1}
+              step={0.05}
+              value={settings[key]}
+              onChange={(e) => onSettingsChange({ ...settings, [key]: Number(e.target.value) })}
+              className="w-full accent-indigo-500"
+            />
+          </label>
+        ))}
+        <label className="flex items-center gap-2 text-[10px] text-slate-400 cursor-pointer">
+          <input
+            type="checkbox"
+            checked={settings.useSpeakerBoost}
+            onChange={(e) => onSettingsChange({ ...settings, useSpeakerBoost: e.target.checked })}
+            className="accent-indigo-500"
+          />
+          Speaker boost
+        </label>
+      </div>
+
+      <div className="flex items-center gap-2">
+        <select
+          value={modelId}
+          onChange={(e) => onModelChange(e.target.value)}
+          className="flex-1 bg-slate-900 border border-slate-700 rounded-lg p-2 text-white text-xs focus:ring-2 focus:ring-purple-500 outline-none"
+        >
+          {ELEVENLABS_MODELS.map(model => <option key={model.id} value={model.id}>{model.label}</option>)}
+        </select>
+        <button onClick={() => onSettingsChange({ ...DEFAULT_VOICE_SETTINGS })} className="p-2 text-slate-500 hover:text-white" title="Reset to defaults">
+          <RotateCcw size={12} />
+        </button>
+      </div>
+
+      {provider.listVoices && (
+        <details className="text-xs" onToggle={(e) => { if ((e.target as HTMLDetailsElement).open && !voices) loadVoices(); }}>
+          <summary className="cursor-pointer text-slate-400 hover:text-slate-200">Voices in your account</summary>
+          <div className="mt-2 space-y-1">
+            {busy === 'list' && <p className="text-slate-500 flex items-center gap-1"><Loader2 size={12} className="animate-spin" /> Loading voices...</p>}
+            {voices?.length === 0 && <p className="text-slate-500">No cloned voices yet.</p>}
+            {voices?.map(voice => {
+              const owners = usedBy[voice.voiceId] || [];
+              const isCurrent = voice.voiceId === voiceId;
+              return (
+                <div key={voice.voiceId} className="flex items-center gap-2 bg-slate-900 border border-slate-700 rounded-lg px-2 py-1">
+                  {renderPreviewButton(voice.voiceId)}
+                  <span className="flex-1 truncate text-slate-300">
+                    {voice.name}
+                    {voice.createdAt && <span className="text-slate-500"> · {new Date(voice.createdAt).toLocaleDateString()}</span>}
+                  </span>
+                  {isCurrent ? (
+                    <span className="text-[10px] text-indigo-300 flex items-center gap-1"><Check size={10} /> This avatar</span>
+                  ) : owners.length > 0 ? (
+                    <span className="text-[10px] text-slate-500 truncate max-w-[8rem]" title={owners.join(', ')}>Used by {owners.join(', ')}</span>
+                  ) : (
+                    <>
+                      <span className="text-[10px] text-amber-400">Unused</span>
+                      <button onClick={() => onVoiceChange(voice.voiceId)} disabled={!!busy} className="text-[10px] text-slate-400 hover:text-white disabled:opacity-50">Use</button>
+                    </>
+                  )}
+                  {owners.length === 0 && provider.deleteVoice && (
+                    <button onClick={() => remove(voice)} disabled={!!busy} className="p-1 text-slate-500 hover:text-red-300 disabled:opacity-50" title="Delete voice">
+                      {busy === `delete:${voice.voiceId}` ? <Loader2 size={12} className="animate-spin" /> : <Trash2 size={12} />}
+                    </button>
+                  )}
+                </div>
+              );
+            })}
+          </div>
+        </details>
+      )}
+
+      {error && (
+        <p className="text-xs text-amber-300 flex items-start gap-1">
+          <AlertTriangle size={14} className="flex-shrink-0 mt-px" /> {error}
+        </p>
+      )}
+    </div>
+  );
+};
+
+export default VoiceManager;
@@ -0,0 +1,289 @@
+import React, { useEffect, useRef, useState } from 'react';
+import {
+  analyzeVoiceQuality,
+  concatAudioBuffers,
+  decodeToMono,
+  encodeWav,
+  getWaveformPeaks,
+  readWavSampleRate,
+  sliceAudioBuffer,
+  VoiceQualityReport,
+} from '../utils/audioUtils';
+import { createMemoryId } from '../utils/memoryUtils';
+import { AlertTriangle, CheckCircle2, Circle, Loader2, Mic, Play, Square, Trash2, Upload, XCircle } from 'lucide-react';
+
+interface Props {
+  // Receives the combined, trimmed sample as WAV, or null when there are no clips
+  onChange: (sample: Blob | null, report: VoiceQualityReport | null) => void;
+}
+
+interface VoiceClip {
+  id: string;
+  label: string;
+  buffer: AudioBuffer;
+  sourceSampleRate?: number; // Unknown for compressed uploads, which are resampled on decode
+  start: number; // Seconds
+  end: number;
+  peaks: number[];
+}
+
+// All clips are decoded at this rate so they can be joined
+const EDIT_SAMPLE_RATE = 44100;
+const WAVEFORM_BINS = 160;
+
+const formatSeconds = (seconds: number) =>
+  `${Math.floor(seconds / 60)}:${Math.floor(seconds % 60).toString().padStart(2, '0')}`;
+
+const Waveform: React.FC<{ clip: VoiceClip }> = ({ clip }) => {
+  const canvasRef = useRef<HTMLCanvasElement>(null);
+
+  useEffect(() => {
+    const canvas = canvasRef.current;
+    if (!canvas) return;
+    const ctx = canvas.getContext('2d')!;
+    const { width, height } = canvas;
+    const barWidth = width / clip.peaks.length;
+    const duration = clip.buffer.duration;
+
+    ctx.clearRect(0, 0, width, height);
+    clip.peaks.forEach((peak, i) => {
+      const time = (i / clip.peaks.length) * duration;
+      const kept = time >= clip.start && time <= clip.end;
+      ctx.fillStyle = peak >= 0.99 ? '#f87171' : kept ? '#818cf8' : '#334155';
+      const barHeight = Math.max(1, peak * height);
+      ctx.fillRect(i * barWidth, (height - barHeight) / 2, Math.max(1, barWidth - 1), barHeight);
+    });
+  }, [clip]);
+
+  return <canvas ref={canvasRef} width={WAVEFORM_BINS * 3} height={48} className="w-full h-12" />;
+};
+
+const CheckIcon: React.FC<{ status: 'good' | 'warn' | 'bad' }> = ({ status }) => {
+  if (status === 'good') return <CheckCircle2 size={12} className="text-green-400 flex-shrink-0 mt-px" />;
+  if (status === 'warn') return <AlertTriangle size={12} className="text-amber-400 flex-shrink-0 mt-px" />;
+  return <XCircle size={12} className="text-red-400 flex-shrink-0 mt-px" />;
+};
+
+/**
+ * Records or uploads voice clips, lets each be trimmed, and checks whether the
+ * combined material is good enough to clone.
+ */
+const VoiceSampleStudio: React.FC<Props> = ({ onChange }) => {
+  const [clips, setClips] = useState<VoiceClip[]>([]);
+  const [isRecording, setIsRecording] = useState(false);
+  const [recordingSeconds, setRecordingSeconds] = useState(0);
+  const [isDecoding, setIsDecoding] = useState(false);
+  const [report, setReport] = useState<VoiceQualityReport | null>(null);
+  const [error, setError] = useState<string | null>(null);
+
+  const contextRef = useRef<AudioContext | null>(null);
+  const recorderRef = useRef<MediaRecorder | null>(null);
+  const previewRef = useRef<AudioBufferSourceNode | null>(null);
+  const onChangeRef = useRef(onChange);
+  onChangeRef.current = onChange;
+
+  const getContext = (): AudioContext => {
+    if (!contextRef.current) {
+      const AudioContextClass = window.AudioContext || window.webkitAudioContext;
+      contextRef.current = new AudioContextClass({ sampleRate: EDIT_SAMPLE_RATE });
+    }
+    return contextRef.current;
+  };
+
+  useEffect(() => {
+    return () => {
+      recorderRef.current?.stream.getTracks().forEach(track => track.stop());
+      contextRef.current?.close();
+    };
+  }, []);
+
+  useEffect(() => {
+    if (!isRecording) return;
+    const started = Date.now();
+    const timer = setInterval(() => setRecordingSeconds(Math.floor((Date.now() - started) / 1000)), 250);
+    return () => clearInterval(timer);
+  }, [isRecording]);
+
+  // Combine the trimmed clips and re-check quality whenever they change
+  useEffect(() => {
+    if (clips.length === 0) {
+      setReport(null);
+      onChangeRef.current(null, null);
+      return;
+    }
+    const ctx = getContext();
+    const combined = concatAudioBuffers(clips.map(clip => sliceAudioBuffer(clip.buffer, clip.start, clip.end, ctx)), ctx);
+    // A combined sample is only as good as its worst source, so one unknown rate makes it unknown
+    const rates = clips.map(clip => clip.sourceSampleRate);
+    const sourceSampleRate = rates.every((rate): rate is number => rate !== undefined) ? Math.min(...rates) : undefined;
+    const analysis = analyzeVoiceQuality(combined, sourceSampleRate);
+    setReport(analysis);
+    onChangeRef.current(encodeWav(combined), analysis);
+  }, [clips]);
+
+  const addClip = async (data: ArrayBuffer, label: string, sourceSampleRate?: number) => {
+    setIsDecoding(true);
+    setError(null);
+    try {
+      const ctx = getContext();
+      // Read the header first: decoding detaches the buffer
+      const rate = sourceSampleRate ?? readWavSampleRate(data);
+      const buffer = await decodeToMono(data, ctx);
+      setClips(prev => [...prev, {
+        id: createMemoryId(),
+        label,
+        buffer,
+        sourceSampleRate: rate,
+        start: 0,
+        end: buffer.duration,
+        peaks: getWaveformPeaks(buffer, WAVEFORM_BINS),
+      }]);
+    } catch (e) {
+      console.error("Failed to decode voice clip", e);
+      setError('This audio could not be read. Try a WAV, MP3 or M4A file.');
+    } finally {
+      setIsDecoding(false);
+    }
+  };
+
+  const handleUpload = async (e: React.ChangeEvent<HTMLInputElement>) => {
+    const files: File[] = e.target.files ? Array.from(e.target.files) : [];
+    e.target.value = '';
+    for (const file of files) {
+      await addClip(await file.arrayBuffer(), file.name);
+    }
+  };
+
+  const startRecording = async () => {
+    setError(null);
+    try {
+      const stream = await navigator.mediaDevices.getUserMedia({
+        audio: { echoCancellation: false, noiseSuppression: false, autoGainControl: true },
+      });
+      const sourceSampleRate = stream.getAudioTracks()[0]?.getSettings().sampleRate;
+      const recorder = new MediaRecorder(stream);
+      const chunks: Blob[] = [];
+      recorder.ondataavailable = (event) => chunks.push(event.data);
+      recorder.onstop = async () => {
+        stream.getTracks().forEach(track => track.stop());
+        const blob = new Blob(chunks, { type: recorder.mimeType });
+        await addClip(await blob.arrayBuffer(), `Recording ${new Date().toLocaleTimeString()}`, sourceSampleRate);
+      };
+      recorderRef.current = recorder;
+      recorder.start();
+      setRecordingSeconds(0);
+      setIsRecording(true);
+    } catch (e) {
+      console.error("Microphone unavailable", e);
+      setError('Could not access the microphone. Check the browser permissions.');
+    }
+  };
+
+  const stopRecording = () => {
+    recorderRef.current?.stop();
+    recorderRef.current = null;
+    setIsRecording(false);
+  };
+
+  const updateClip = (id: string, patch: Partial<VoiceClip>) => {
+    setClips(prev => prev.map(clip => clip.id === id ? { ...clip, ...patch } : clip));
+  };
+
+  const previewClip = (clip: VoiceClip) => {
+    previewRef.current?.stop();
+    const ctx = getContext();
+    const source = ctx.createBufferSource();
+    source.buffer = clip.buffer;
+    source.connect(ctx.destination);
+    source.start(0, clip.start, clip.end - clip.start);
+    previewRef.current = source;
+  };
+
+  return (
+    <div className="space-y-3">
+      <div className="flex flex-wrap gap-2">
+        {isRecording ? (
+          <button onClick={stopRecording} className="px-3 py-2 rounded-full bg-red-600 hover:bg-red-500 text-white text-xs font-semibold flex items-center gap-2">
+            <Square size={12} /> Stop ({formatSeconds(recordingSeconds)})
+          </button>
+        ) : (
+          <button onClick={startRecording} disabled={isDecoding} className="px-3 py-2 rounded-full bg-indigo-600 hover:bg-indigo-500 text-white text-xs font-semibold flex items-center gap-2 disabled:opacity-50">
+            <Mic size={12} /> Record
+          </button>
+        )}
+        <label className={`px-3 py-2 rounded-full bg-slate-700 hover:bg-slate-600 text-white text-xs font-semibold flex items-center gap-2 ${isDecoding ? 'cursor-wait opacity-50' : 'cursor-pointer'}`}>
+          {isDecoding ? <Loader2 size={12} className="animate-spin" /> : <Upload size={12} />}
+          Add audio files
+          <input type="file" accept="audio/*" multiple onChange={handleUpload} disabled={isDecoding || isRecording} className="hidden" />
+        </label>
+      </div>
+
+      {clips.map(clip => (
+        <div key={clip.id} className="bg-slate-900 border border-slate-700 rounded-lg p-2 space-y-1">
+          <div className="flex items-center gap-2 text-xs text-slate-300">
+            <button onClick={() => previewClip(clip)} className="p-1 text-indigo-300 hover:text-indigo-200" title="Play trimmed clip">
+              <Play size={12} />
+            </button>
+            <span className="flex-1 truncate">{clip.label}</span>
+            <span className="text-slate-500">{formatSeconds(clip.end - clip.start)}</span>
+            <button onClick={() => setClips(prev => prev.filter(c => c.id !== clip.id))} className="p-1 text-slate-500 hover:text-red-300" title="Remove clip">
+              <Trash2 size={12} />
+            </button>
+          </div>
+          <Waveform clip={clip} />
+          <div className="grid grid-cols-2 gap-2 text-[10px] text-slate-500">
+            <label className="flex items-center gap-1">
+              Start {formatSeconds(clip.start)}
+              <input
+                type="range"
+                min={0}
+                max={clip.buffer.duration}
+                step={0.1}
+                value={clip.start}
+                onChange={(e) => updateClip(clip.id, { start: Math.min(Number(e.target.value), clip.end - 0.5) })}
+                className="flex-1 accent-indigo-500"
+              />
+            </label>
+            <label className="flex items-center gap-1">
+              End {formatSeconds(clip.end)}
+              <input
+                type="range"
+                min={0}
+                max={clip.buffer.duration}
+                step={0.1}
+                value={clip.end}
+                onChange={(e) => updateClip(clip.id, { end: Math.max(Number(e.target.value), clip.start + 0.5) })}
+                className="flex-1 accent-indigo-500"
+              />
+            </label>
+          </div>
+        </div>
+      ))}
+
+      {report && (
+        <div className="bg-slate-900 border border-slate-700 rounded-lg p-3 space-y-1">
+          <p className={`text-xs font-semibold flex items-center gap-1 ${report.verdict === 'good' ? 'text-green-300' : report.verdict === 'fair' ? 'text-amber-300' : 'text-red-300'}`}>
+            <Circle size={8} className="fill-current" />
+            {report.verdict === 'good' ? 'Good material for cloning' : report.verdict === 'fair' ? 'Usable, but the clone may sound off' : 'Unlikely to give a good clone'}
+            {clips.length > 1 && <span className="text-slate-500 font-normal">· {clips.length} clips combined</span>}
+          </p>
+          {report.checks.map(check => (
+            <div key={check.label} className="flex items-start gap-1 text-[10px] text-slate-400">
+              <CheckIcon status={check.status} />
+              <span className="text-slate-300">{check.label}:</span> {check.value}
+              {check.advice && <span className="text-slate-500">— {check.advice}</span>}
+            </div>
+          ))}
+        </div>
+      )}
+
+      {error && (
+        <p className="text-xs text-amber-300 flex items-start gap-1">
+          <AlertTriangle size={14} className="flex-shrink-0 mt-px" /> {error}
+        </p>
+      )}
+    </div>
+  );
+};
+
+export default VoiceSampleStudio;
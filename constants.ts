@@ -7,5 +7,159 @@ export const MODELS = {
   EMBEDDING: 'text-embedding-004',
 };
 
+// Which implementation backs each capability. Set AI_PROVIDER=mock to run fully offline.
+export const PROVIDER_CONFIG = {
+  chat: 'gemini',
+  speech: 'gemini',
+  clonedSpeech: 'elevenlabs', // Used when a profile has a cloned voice
+  transcription: 'gemini',
+  embedding: 'gemini',
+  realtime: 'gemini',
+} as const;
+
+// Memory retrieval
+export const MEMORY_TOP_K = 4;
+export const MEMORY_CHUNK_MAX_CHARS = 500;
+export const EMBEDDING_BATCH_SIZE = 100; // Texts per batch embedding request, the API's limit
+export const EMBEDDING_SESSION_CACHE_SIZE = 200; // Messages and replies kept in memory, not on disk
+
+// Reply attribution (utils/passageUtils.ts): profile sources are scored sentence by sentence
+export const ATTRIBUTION = {
+  MIN_PASSAGE_CHARS: 30, // Shorter sentences are joined with the next one
+  MAX_PASSAGES_PER_SOURCE: 80, // Bounds embedding calls for very long profiles
+  TOP_PASSAGES_PER_SOURCE: 3,
+};
+
+// Explanation scores are calibrated against how similar the reply is to text that
+// is not this avatar's (utils/calibrationUtils.ts): these neutral sentences plus
+// the other avatars' passages of the same source.
+export const CALIBRATION = {
+  GROUNDED_CONFIDENCE: 0.95,
+  MAX_BASELINE_PROFILES: 5, // Other avatars sampled, most recently edited first
+  MAX_BASELINE_PASSAGES: 200, // Per source, from other avatars
+  MIN_BASELINE_SPREAD: 0.02, // Floor on the baseline's standard deviation, for near-identical baselines
+};
+// Stylometric style match (utils/stylometryUtils.ts)
+export const STYLOMETRY = {
+  MIN_SAMPLE_WORDS: 40, // Less sample text gives no usable fingerprint
+  TTR_WINDOW: 50, // Words per window for the type/token ratio
+  MIN_SENTENCE_LENGTH_STD: 3, // Words; tolerance when the samples' sentences are all alike
+  MIN_PHRASE_COUNT: 2, // Occurrences in the samples for a signature phrase
+  MAX_SIGNATURE_PHRASES: 8,
+  FULL_NGRAM_OVERLAP: 0.5, // Share of a reply's word sequences found in the samples that counts as a full match
+  WEIGHTS: {
+    sentenceLength: 0.2,
+    vocabulary: 0.1,
+    functionWords: 0.25,
+    punctuation: 0.2,
+    ngrams: 0.15,
+    signaturePhrases: 0.1,
+  },
+};
+
+// Persona evaluation (eval/run.ts, utils/evaluationUtils.ts)
+export const EVALUATION = {
+  MAX_SENTENCES: 3, // buildSystemPrompt asks for 1-3
+  MIN_FACT_SCORE: 0.5,
+  UNSUPPORTED_YEAR_PENALTY: 0.25, // Per year stated that the memories do not contain
+  MIN_STYLE_SCORE: 0.5,
+  PASS_SCORE: 70, // Probe score needed to pass, 0-100
+  WEIGHTS: {
+    facts: 0.35,
+    forbiddenClaims: 0.2,
+    character: 0.2,
+    format: 0.15,
+    style: 0.1,
+  },
+};
+
+export const BASELINE_TEXTS = [
+  'I grew up in a small town and went to the local school.',
+  'We used to spend the holidays with the whole family.',
+  'My first job was hard work, but I learned a lot from it.',
+  'I remember the day we moved into our new house.',
+  'On Sundays we would cook a big meal together.',
+  'I always liked walking by the sea when the weather was good.',
+  'Well, you know how it is, things were different back then.',
+  'Oh, that is a lovely question, let me think about it.',
+  'I am doing fine, thank you for asking. How are you?',
+  'Honestly, I do not remember every detail, but it was a good time.',
+  'Kind, patient and a little stubborn, with a dry sense of humour.',
+  'Loves music, gardening and long conversations over tea.',
+];
+
+// Era portraits: a recalled memory must be at least this similar to switch photos,
+// and a dated photo covers memories within this many years of it
+export const PORTRAIT_MATCH_MIN_SCORE = 0.55;
+export const PORTRAIT_YEAR_TOLERANCE = 10;
+
+// Conversation context defaults, overridable per profile
+export const DEFAULT_CONTEXT_SETTINGS = {
+  historyTokenBudget: 1500,
+  recentWindow: 6,
+};
+
+// Cloned voices (ElevenLabs). Settings and model are overridable per profile.
+export const ELEVENLABS_MODELS = [
+  { id: 'eleven_multilingual_v2', label: 'Multilingual v2 (most natural)' },
+  { id: 'eleven_turbo_v2_5', label: 'Turbo v2.5 (faster)' },
+  { id: 'eleven_flash_v2_5', label: 'Flash v2.5 (lowest latency)' },
+] as const;
+export const DEFAULT_ELEVENLABS_MODEL = 'eleven_multilingual_v2';
+export const DEFAULT_VOICE_SETTINGS = {
+  stability: 0.5,
+  similarityBoost: 0.75,
+  style: 0,
+  useSpeakerBoost: true,
+};
+export const VOICE_PREVIEW_TEXT = "Hello, sweetheart. It's so good to hear from you. Tell me everything.";
+
+// Local cache of synthesized speech (services/speechCacheService.ts), least recently played evicted first
+export const SPEECH_CACHE_MAX_BYTES = 50 * 1024 * 1024;
+export const SPEECH_CACHE_MAX_ENTRIES = 1000;
+
 export const AUDIO_SAMPLE_RATE_INPUT = 16000;
-export const AUDIO_SAMPLE_RATE_OUTPUT = 24000;
\ No newline at end of file
+export const MIC_FRAME_SAMPLES = 640; // 40 ms at the input rate
+
+// Live call microphone handling (utils/vadUtils.ts). Frame counts are in mic frames.
+export const DEFAULT_LIVE_SETTINGS = {
+  inputMode: 'open',
+} as const;
+export const VAD = {
+  INITIAL_NOISE_FLOOR_DB: -60,
+  NOISE_FLOOR_RISE: 0.02, // Per non-speech frame
+  ENERGY_MARGIN_DB: 10, // Above the noise floor
+  MIN_SPEECH_DB: -50,
+  MIN_SPEECH_BAND_RATIO: 0.6, // White noise sits near 0.5
+  MAX_FLATNESS: 0.4,
+  ONSET_FRAMES: 2, // 80 ms of speech before the mic opens
+  HANGOVER_FRAMES: 12, // Stay open through ~0.5 s pauses between words
+  PRE_ROLL_FRAMES: 5, // Sent ahead of detected speech so the first syllable is not clipped
+};
+export const AUDIO_SAMPLE_RATE_OUTPUT = 24000;
+
+// Live call reconnection (utils/liveSessionState.ts)
+export const LIVE_RECONNECT = {
+  MAX_ATTEMPTS: 5,
+  BASE_DELAY_MS: 1000, // Doubles per attempt
+  MAX_DELAY_MS: 15000,
+  CONTEXT_CAPTIONS: 12, // Recent captions replayed into the prompt when a session cannot be resumed
+};
+
+// Portrait preprocessing (services/portraitService.ts). The face detector runs in the
+// browser; its WASM runtime and model are fetched from a CDN on first use.
+export const FACE_DETECTION = {
+  WASM_URL: 'https://cdn.jsdelivr.net/npm/@mediapipe/tasks-vision@0.10.35/wasm',
+  MODEL_URL: 'https://storage.googleapis.com/mediapipe-models/face_detector/blaze_face_short_range/float16/1/blaze_face_short_range.tflite',
+  MIN_CONFIDENCE: 0.6,
+};
+export const PORTRAIT_SIZE = 512; // Square output, in pixels
+export const PORTRAIT_MAX_UPLOAD_BYTES = 20 * 1024 * 1024;
+
+// Profile export/import (services/bundleService.ts)
+export const BUNDLE_FORMAT = 'memory-avatar-bundle';
+export const BUNDLE_VERSION = 2; // v2: era photos moved into assets
+export const BUNDLE_FILE_EXTENSION = '.avatar.json';
+
+// Bump when AvatarProfile changes and add a step to services/profileService.ts
+export const PROFILE_SCHEMA_VERSION = 2;
@@ -0,0 +1,116 @@
+// Persona evaluation runner. Asks an avatar the probe questions of one or more
+// suites (see eval/suites/example.json) and writes a scored report per suite
+// as JSON and HTML.
+//
+//   npm run eval -- eval/suites/example.json                     (mock model, offline)
+//   npm run eval -- eval/suites/example.json --provider gemini   (needs `npm run server`)
+//
+// Options:
+//   --out <dir>             Where reports go (default eval/reports)
+//   --baseline <file.json>  Earlier report of the same suite to compare scores with
+//   --fail-under <score>    Exit with code 1 when a suite scores below this (0-100)
+
+import fs from 'fs';
+import path from 'path';
+import { parseArgs } from 'util';
+import { MODELS } from '../constants';
+import { runEvaluation } from '../services/evaluationService';
+import { configureProviders } from '../services/providerRegistry';
+import { configureApiBase } from '../services/proxyClient';
+import { EvalReport, EvalSuite } from '../types';
+import { renderEvalReportHtml } from '../utils/evalReportUtils';
+
+const { values: options, positionals: suitePaths } = parseArgs({
+  allowPositionals: true,
+  options: {
+    provider: { type: 'string', default: 'mock' },
+    out: { type: 'string', default: 'eval/reports' },
+    baseline: { type: 'string' },
+    'fail-under': { type: 'string' },
+  },
+});
+
+const fail = (message: string): never => {
+  console.error(message);
+  process.exit(2);
+};
+
+const readJsonFile = <T>(file: string): T => {
+  try {
+    return JSON.parse(fs.readFileSync(file, 'utf8'));
+  } catch (e) {
+    return fail(`Could not read ${file}: ${e instanceof Error ? e.message : e}`);
+  }
+};
+
+const validateSuite = (suite: EvalSuite, file: string): EvalSuite => {
+  if (!suite.name || !suite.profile?.name || !Array.isArray(suite.probes) || suite.probes.length === 0) {
+    fail(`${file} needs a "name", a "profile" with a name and at least one probe`);
+  }
+  suite.probes.forEach((probe, i) => {
+    if (!probe.id || !probe.question) fail(`${file}: probe ${i + 1} needs an "id" and a "question"`);
+  });
+  return suite;
+};
+
+const printComparison = (report: EvalReport, baseline: EvalReport) => {
+  const delta = (now: number, before: number) => `${now - before >= 0 ? '+' : ''}${now - before}`;
+  console.log(`  vs. baseline (${baseline.provider}, ${baseline.startedAt}): score ${delta(report.score, baseline.score)}, passed ${delta(Math.round(report.passRate * 100), Math.round(baseline.passRate * 100))} points`);
+  report.results.forEach(result => {
+    const before = baseline.results.find(previous => previous.probe.id === result.probe.id);
+    if (before && before.score !== result.score) {
+      console.log(`    ${result.probe.id}: ${before.score} -> ${result.score}`);
+    }
+  });
+};
+
+const main = async () => {
+  if (suitePaths.length === 0) fail('Usage: npm run eval -- <suite.json> [...] [--provider mock|gemini] [--out dir] [--baseline report.json] [--fail-under score]');
+
+  if (options.provider === 'mock') {
+    configureProviders('mock');
+  } else if (options.provider === 'gemini') {
+    // Node has no page origin, so the proxy's address has to be spelled out
+    configureProviders({ chat: 'gemini' });
+    configureApiBase(process.env.API_BASE_URL || `http://127.0.0.1:${process.env.API_SERVER_PORT || 3001}/api`);
+  } else {
+    fail(`Unknown provider "${options.provider}"; use mock or gemini`);
+  }
+  const failUnder = options['fail-under'] === undefined ? undefined : Number(options['fail-under']);
+  const baseline = options.baseline ? readJsonFile<EvalReport>(options.baseline) : undefined;
+
+  fs.mkdirSync(options.out!, { recursive: true });
+  let belowThreshold = false;
+
+  for (const suitePath of suitePaths) {
+    const suite = validateSuite(readJsonFile<EvalSuite>(suitePath), suitePath);
+    console.log(`${suite.name} (${suite.probes.length} probes)`);
+
+    const report = await runEvaluation(suite, {
+      model: options.provider === 'mock' ? undefined : MODELS.TEXT,
+      onProbe: (result, index, total) => {
+        const status = result.error ? `ERROR ${result.error}` : `${result.passed ? 'pass' : 'FAIL'} ${result.score}`;
+        console.log(`  [${index + 1}/${total}] ${result.probe.id}: ${status}`);
+      },
+    });
+
+    const stamp = report.startedAt.replace(/[:.]/g, '-');
+    const base = path.join(options.out!, `${path.basename(suitePath, '.json')}-${stamp}`);
+    fs.writeFileSync(`${base}.json`, JSON.stringify(report, null, 2));
+    fs.writeFileSync(`${base}.html`, renderEvalReportHtml(report));
+
+    console.log(`  Score ${report.score}, ${Math.round(report.passRate * 100)}% passed -> ${base}.json, ${base}.html`);
+    if (baseline && baseline.suite === report.suite) printComparison(report, baseline);
+    if (failUnder !== undefined && report.score < failUnder) belowThreshold = true;
+  }
+
+  if (belowThreshold) {
+    console.error(`A suite scored below ${failUnder}`);
+    process.exit(1);
+  }
+};
+
+main().catch(e => {
+  console.error(e);
+  process.exit(2);
+});
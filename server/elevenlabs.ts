@@ -0,0 +1,129 @@
+// ElevenLabs calls made on behalf of the browser; the API key never leaves the server
+
+import { DEFAULT_ELEVENLABS_MODEL, DEFAULT_VOICE_SETTINGS, ELEVENLABS_MODELS } from '../constants';
+import { ClonedVoice, SpeechOptions, VoiceSettings } from '../types';
+
+const ELEVENLABS_API = 'https://api.elevenlabs.io/v1';
+
+// The fields of ElevenLabs' voice listing that are used here
+interface ElevenLabsVoice {
+  voice_id: string;
+  name: string;
+  category?: string;
+  created_at_unix?: number;
+  preview_url?: string;
+}
+
+const getApiKey = (): string => {
+  if (!process.env.ELEVENLABS_API_KEY) {
+    throw Object.assign(new Error("ELEVENLABS_API_KEY is not set on the server"), { status: 500 });
+  }
+  return process.env.ELEVENLABS_API_KEY;
+};
+
+// Surfaces the vendor's own message and status so the client can decide whether to retry
+const toUpstreamError = async (response: Response): Promise<Error> => {
+  const errorText = await response.text();
+  let errorMessage = errorText;
+  try {
+    const errorJson = JSON.parse(errorText);
+    errorMessage = errorJson.detail?.message || errorJson.detail || errorText;
+  } catch (e) {}
+  return Object.assign(new Error(`ElevenLabs Error: ${errorMessage}`), { status: response.status });
+};
+
+/**
+ * Forwards the browser's multipart voice sample as-is and returns the new voice id.
+ */
+export const addVoice = async (body: Buffer, contentType: string): Promise<string> => {
+  const response = await fetch(`${ELEVENLABS_API}/voices/add`, {
+    method: 'POST',
+    headers: {
+      'xi-api-key': getApiKey(),
+      'Content-Type': contentType,
+    },
+    body,
+  });
+
+  if (!response.ok) throw await toUpstreamError(response);
+
+  const data = await response.json();
+  return data.voice_id;
+};
+
+const clamp01 = (value: unknown, fallback: number) =>
+  typeof value === 'number' && Number.isFinite(value) ? Math.min(1, Math.max(0, value)) : fallback;
+
+// Settings arrive from the browser, so unknown models and out-of-range values fall back to defaults
+const toVoiceSettings = (settings: Partial<VoiceSettings> = {}) => ({
+  stability: clamp01(settings.stability, DEFAULT_VOICE_SETTINGS.stability),
+  similarity_boost: clamp01(settings.similarityBoost, DEFAULT_VOICE_SETTINGS.similarityBoost),
+  style: clamp01(settings.style, DEFAULT_VOICE_SETTINGS.style),
+  use_speaker_boost: typeof settings.useSpeakerBoost === 'boolean' ? settings.useSpeakerBoost : DEFAULT_VOICE_SETTINGS.useSpeakerBoost,
+});
+
+const toModelId = (modelId?: string): string =>
+  ELEVENLABS_MODELS.some(model => model.id === modelId) ? modelId! : DEFAULT_ELEVENLABS_MODEL;
+
+/**
+ * Cloned voices in the account. Premade and library voices are left out:
+ * only cloned ones can belong to an avatar.
+ */
+export const listVoices = async (): Promise<ClonedVoice[]> => {
+  const response = await fetch(`${ELEVENLABS_API}/voices`, {
+    headers: { 'xi-api-key': getApiKey() },
+  });
+
+  if (!response.ok) throw await toUpstreamError(response);
+
+  const data: { voices?: ElevenLabsVoice[] } = await response.json();
+  return (data.voices || [])
+    .filter(voice => voice.category === 'cloned')
+    .map(voice => ({
+      voiceId: voice.voice_id,
+      name: voice.name,
+      createdAt: voice.created_at_unix ? voice.created_at_unix * 1000 : undefined,
+      previewUrl: voice.preview_url || undefined,
+    }));
+};
+
+export const deleteVoice = async (voiceId: string): Promise<void> => {
+  const response = await fetch(`${ELEVENLABS_API}/voices/${encodeURIComponent(voiceId)}`, {
+    method: 'DELETE',
+    headers: { 'xi-api-key': getApiKey() },
+  });
+
+  if (!response.ok) throw await toUpstreamError(response);
+};
+
+/**
+ * Returns MP3 audio as base64 plus per-character timings, which the browser
+ * uses for lip sync.
+ */
+export const textToSpeech = async (voiceId: string, text: string, options: SpeechOptions = {}) => {
+  const response = await fetch(`${ELEVENLABS_API}/text-to-speech/${encodeURIComponent(voiceId)}/with-timestamps`, {
+    method: 'POST',
+    headers: {
+      'xi-api-key': getApiKey(),
+      'Content-Type': 'application/json',
+    },
+    body: JSON.stringify({
+      text,
+      model_id: toModelId(options.modelId),
+      voice_settings: toVoiceSettings(options.settings),
+    }),
+  });
+
+  if (!response.ok) throw await toUpstreamError(response);
+
+  const data = await response.json();
+  const alignment = data.alignment;
+  return {
+    audioBase64: data.audio_base64 as string,
+    alignment: alignment && {
+      characters: alignment.characters,
+      startTimes: alignment.character_start_times_seconds,
+      endTimes: alignment.character_end_times_seconds,
+    },
+  };
+};
@@ -0,0 +1,128 @@
+// Gemini calls made on behalf of the browser; the API key never leaves the server
+
+import { GoogleGenAI, Modality } from "@google/genai";
+import { MODELS } from "../constants";
+import { ChatRequest } from "../types";
+
+// Live tokens are single use. The browser must open its session within a minute
+// of minting one, and the token (so the session) stops working after 30 minutes.
+const LIVE_TOKEN_CONNECT_WINDOW_MS = 60 * 1000;
+const LIVE_TOKEN_TTL_MS = 30 * 60 * 1000;
+
+export type ProxyChatRequest = Omit<ChatRequest, 'onChunk'>;
+
+let client: GoogleGenAI | null = null;
+
+const getAiClient = (): GoogleGenAI => {
+  if (!process.env.GEMINI_API_KEY) {
+    throw Object.assign(new Error("GEMINI_API_KEY is not set on the server"), { status: 500 });
+  }
+  client ??= new GoogleGenAI({ apiKey: process.env.GEMINI_API_KEY });
+  return client;
+};
+
+const buildChatParams = (request: ProxyChatRequest) => ({
+  model: MODELS.TEXT,
+  contents: typeof request.contents === 'string'
+    ? request.contents
+    : request.contents.map(turn => ({ role: turn.role, parts: [{ text: turn.text }] })),
+  config: {
+    systemInstruction: request.systemInstruction,
+    maxOutputTokens: request.maxOutputTokens,
+    temperature: request.temperature,
+    ...(request.jsonSchema && {
+      responseMimeType: "application/json",
+      responseJsonSchema: request.jsonSchema,
+    }),
+  },
+});
+
+export const generateText = async (request: ProxyChatRequest) => {
+  const response = await getAiClient().models.generateContent(buildChatParams(request));
+  return {
+    text: response.text || '',
+    finishReason: response.candidates?.[0]?.finishReason,
+  };
+};
+
+/**
+ * Yields one { text, finishReason } object per streamed chunk.
+ */
+export async function* streamText(request: ProxyChatRequest) {
+  const stream = await getAiClient().models.generateContentStream(buildChatParams(request));
+  for await (const chunk of stream) {
+    yield {
+      text: chunk.text || '',
+      finishReason: chunk.candidates?.[0]?.finishReason,
+    };
+  }
+}
+
+export const generateSpeech = async (text: string, voiceName: string): Promise<string> => {
+  const response = await getAiClient().models.generateContent({
+    model: MODELS.TTS,
+    contents: { parts: [{ text }] },
+    config: {
+      responseModalities: [Modality.AUDIO],
+      speechConfig: {
+        voiceConfig: {
+          prebuiltVoiceConfig: { voiceName: voiceName || 'Kore' }
+        }
+      }
+    }
+  });
+
+  const base64Audio = response.candidates?.[0]?.content?.parts?.[0]?.inlineData?.data;
+  if (!base64Audio) throw new Error("No audio generated");
+  return base64Audio;
+};
+
+export const transcribeAudio = async (audioBase64: string, mimeType: string): Promise<string> => {
+  const response = await getAiClient().models.generateContent({
+    model: MODELS.TRANSCRIPTION,
+    contents: {
+      parts: [
+        { inlineData: { mimeType, data: audioBase64 } },
+        { text: "Transcribe the spoken audio exactly. Ignore background noise." }
+      ]
+    }
+  });
+  return response.text || '';
+};
+
+export const embedText = async (text: string): Promise<number[]> => {
+  const result = await getAiClient().models.embedContent({
+    model: MODELS.EMBEDDING,
+    contents: { parts: [{ text }] }
+  });
+  return result.embeddings?.[0]?.values || [];
+};
+
+/**
+ * Embeds several texts in one request, in the same order.
+ */
+export const embedTexts = async (texts: string[]): Promise<number[][]> => {
+  const result = await getAiClient().models.embedContent({
+    model: MODELS.EMBEDDING,
+    contents: texts.map(text => ({ parts: [{ text }] }))
+  });
+  return texts.map((_, i) => result.embeddings?.[i]?.values || []);
+};
+
+/**
+ * Mints a single-use ephemeral token the browser can open one Live session with.
+ */
+export const createLiveToken = async (): Promise<string> => {
+  const now = Date.now();
+  const token = await getAiClient().authTokens.create({
+    config: {
+      uses: 1,
+      expireTime: new Date(now + LIVE_TOKEN_TTL_MS).toISOString(),
+      newSessionExpireTime: new Date(now + LIVE_TOKEN_CONNECT_WINDOW_MS).toISOString(),
+      liveConnectConstraints: { model: MODELS.LIVE },
+      httpOptions: { apiVersion: 'v1alpha' },
+    }
+  });
+  if (!token.name) throw new Error("No live token returned");
+  return token.name;
+};
@@ -0,0 +1,212 @@
+// Local API proxy. Holds the vendor keys, exposes the endpoints the browser
+// needs under /api and rate limits each client. It only listens on loopback
+// and only accepts JSON (or the voice upload form) from the dev server's origin,
+// so other machines and other web pages cannot spend the keys.
+//
+//   npm run server   (reads GEMINI_API_KEY / ELEVENLABS_API_KEY from the environment or .env.local)
+
+import http, { IncomingMessage, ServerResponse } from 'http';
+import { EMBEDDING_BATCH_SIZE } from '../constants';
+import { SpeechOptions } from '../types';
+import * as elevenlabs from './elevenlabs';
+import * as gemini from './gemini';
+import { createRateLimiter } from './rateLimit';
+
+try {
+  process.loadEnvFile('.env.local');
+} catch (e) {
+  // No env file; rely on the process environment
+}
+
+const HOST = '127.0.0.1';
+const PORT = Number(process.env.API_SERVER_PORT) || 3001;
+// Pages allowed to call the proxy; requests without an Origin (scripts, curl) are not browsers
+const ALLOWED_ORIGINS = new Set([
+  'http://localhost:3000',
+  'http://127.0.0.1:3000',
+  ...(process.env.ALLOWED_ORIGINS || '').split(',').map(origin => origin.trim()).filter(Boolean),
+]);
+// Only set when every request arrives through a proxy that appends X-Forwarded-For (the Vite dev server does)
+const TRUST_PROXY = !!process.env.TRUST_PROXY;
+const MAX_BODY_BYTES = 25 * 1024 * 1024; // Voice samples and recordings
+
+const checkRateLimit = createRateLimiter(
+  Number(process.env.RATE_LIMIT_MAX) || 60,
+  Number(process.env.RATE_LIMIT_WINDOW_MS) || 60_000
+);
+
+type Handler = (req: IncomingMessage, res: ServerResponse) => Promise<void>;
+
+class HttpError extends Error {
+  constructor(public status: number, message: string) {
+    super(message);
+  }
+}
+
+// --- HELPERS ---
+
+const readBody = async (req: IncomingMessage): Promise<Buffer> => {
+  const chunks: Buffer[] = [];
+  let size = 0;
+  for await (const chunk of req) {
+    size += chunk.length;
+    if (size > MAX_BODY_BYTES) throw new HttpError(413, 'Request body too large');
+    chunks.push(chunk);
+  }
+  return Buffer.concat(chunks);
+};
+
+// Fields are whatever the client sent: check them before use, as requireString does
+const readJson = async <T = Record<string, unknown>>(req: IncomingMessage): Promise<Partial<T>> => {
+  if (getContentType(req) !== 'application/json') throw new HttpError(415, 'Expected application/json');
+  try {
+    return JSON.parse((await readBody(req)).toString('utf8') || '{}');
+  } catch (e) {
+    if (e instanceof HttpError) throw e;
+    throw new HttpError(400, 'Invalid JSON body');
+  }
+};
+
+const requireString = (value: unknown, field: string): string => {
+  if (typeof value !== 'string' || !value) throw new HttpError(400, `Missing "${field}"`);
+  return value;
+};
+
+const requireStringArray = (value: unknown, field: string, maxItems: number): string[] => {
+  if (!Array.isArray(value) || value.length === 0 || !value.every(item => typeof item === 'string' && item)) {
+    throw new HttpError(400, `Missing "${field}"`);
+  }
+  if (value.length > maxItems) throw new HttpError(400, `At most ${maxItems} "${field}" per request`);
+  return value;
+};
+
+const sendJson = (res: ServerResponse, status: number, body: unknown) => {
+  res.writeHead(status, { 'Content-Type': 'application/json' });
+  res.end(JSON.stringify(body));
+};
+
+const getContentType = (req: IncomingMessage): string =>
+  (req.headers['content-type'] || '').split(';')[0].trim().toLowerCase();
+
+// The socket address, or with TRUST_PROXY the address our proxy appended last;
+// earlier X-Forwarded-For entries come from the client and can be forged
+const getClientId = (req: IncomingMessage): string => {
+  if (TRUST_PROXY) {
+    const forwarded = req.headers['x-forwarded-for'];
+    const last = (Array.isArray(forwarded) ? forwarded.join(',') : forwarded)?.split(',').pop()?.trim();
+    if (last) return last;
+  }
+  return req.socket.remoteAddress || 'unknown';
+};
+
+// --- ROUTES ---
+
+const routes: Record<string, Handler> = {
+  // Plain JSON reply, or newline-delimited JSON chunks when `stream` is set
+  '/api/chat': async (req, res) => {
+    const { stream, contents, ...options } = await readJson<gemini.ProxyChatRequest & { stream: boolean }>(req);
+    if (!contents) throw new HttpError(400, 'Missing "contents"');
+    const request = { ...options, contents };
+
+    if (!stream) {
+      sendJson(res, 200, await gemini.generateText(request));
+      return;
+    }
+
+    const chunks = gemini.streamText(request);
+    // Pull the first chunk before committing to a 200 so upstream errors keep their status
+    const first = await chunks.next();
+    res.writeHead(200, { 'Content-Type': 'application/x-ndjson' });
+    if (!first.done) res.write(JSON.stringify(first.value) + '\n');
+    for await (const chunk of chunks) {
+      res.write(JSON.stringify(chunk) + '\n');
+    }
+    res.end();
+  },
+
+  '/api/tts': async (req, res) => {
+    const { text, voiceName } = await readJson<{ text: unknown; voiceName: string }>(req);
+    sendJson(res, 200, { audioBase64: await gemini.generateSpeech(requireString(text, 'text'), voiceName) });
+  },
+
+  '/api/transcribe': async (req, res) => {
+    const { audioBase64, mimeType } = await readJson<{ audioBase64: unknown; mimeType: string }>(req);
+    sendJson(res, 200, { text: await gemini.transcribeAudio(requireString(audioBase64, 'audioBase64'), mimeType || 'audio/webm') });
+  },
+
+  '/api/embed': async (req, res) => {
+    const { text } = await readJson(req);
+    sendJson(res, 200, { values: await gemini.embedText(requireString(text, 'text')) });
+  },
+
+  '/api/embed/batch': async (req, res) => {
+    const { texts } = await readJson(req);
+    sendJson(res, 200, { embeddings: await gemini.embedTexts(requireStringArray(texts, 'texts', EMBEDDING_BATCH_SIZE)) });
+  },
+
+  '/api/live/token': async (req, res) => {
+    sendJson(res, 200, { token: await gemini.createLiveToken() });
+  },
+
+  '/api/elevenlabs/tts': async (req, res) => {
+    const { voiceId, text, settings, modelId } = await readJson<{ voiceId: unknown; text: unknown } & SpeechOptions>(req);
+    sendJson(res, 200, await elevenlabs.textToSpeech(requireString(voiceId, 'voiceId'), requireString(text, 'text'), { settings, modelId }));
+  },
+
+  // Multipart form with "name" and "files", forwarded untouched
+  '/api/elevenlabs/voices': async (req, res) => {
+    const contentType = req.headers['content-type'] || '';
+    if (getContentType(req) !== 'multipart/form-data') throw new HttpError(415, 'Expected multipart/form-data');
+    sendJson(res, 200, { voiceId: await elevenlabs.addVoice(await readBody(req), contentType) });
+  },
+
+  '/api/elevenlabs/voices/list': async (req, res) => {
+    sendJson(res, 200, { voices: await elevenlabs.listVoices() });
+  },
+
+  '/api/elevenlabs/voices/delete': async (req, res) => {
+    const { voiceId } = await readJson(req);
+    await elevenlabs.deleteVoice(requireString(voiceId, 'voiceId'));
+    sendJson(res, 200, { deleted: true });
+  },
+};
+
+const server = http.createServer(async (req, res) => {
+  const path = (req.url || '').split('?')[0];
+  const handler = routes[path];
+
+  if (!handler) return sendJson(res, 404, { error: 'Not found' });
+  if (req.method !== 'POST') return sendJson(res, 405, { error: 'Method not allowed' });
+  // Cross-site pages can POST here without a preflight, so their origin is checked explicitly
+  const origin = req.headers.origin;
+  if (origin && !ALLOWED_ORIGINS.has(origin)) return sendJson(res, 403, { error: 'Origin not allowed' });
+  // Routes without a body would otherwise accept a cross-site text/plain POST
+  if (!['application/json', 'multipart/form-data'].includes(getContentType(req))) {
+    return sendJson(res, 415, { error: 'Expected application/json' });
+  }
+
+  const limit = checkRateLimit(getClientId(req));
+  if (!limit.allowed) {
+    res.setHeader('Retry-After', String(limit.retryAfter));
+    return sendJson(res, 429, { error: 'Too many requests' });
+  }
+
+  try {
+    await handler(req, res);
+  } catch (e) {
+    const error = e instanceof Error ? e : new Error(String(e));
+    const status = Number((error as Error & { status?: unknown }).status) || 500;
+    console.error(`${path} failed (${status}):`, error.message);
+    if (res.headersSent) {
+      res.destroy(error);
+    } else {
+      sendJson(res, status >= 400 && status < 600 ? status : 500, { error: error.message || 'Server error' });
+    }
+  }
+});
+
+server.listen(PORT, HOST, () => {
+  console.log(`API proxy listening on http://${HOST}:${PORT}`);
+  if (!process.env.GEMINI_API_KEY) console.warn('GEMINI_API_KEY is not set; Gemini endpoints will fail.');
+  if (!process.env.ELEVENLABS_API_KEY) console.warn('ELEVENLABS_API_KEY is not set; voice cloning is disabled.');
+});
@@ -0,0 +1,35 @@
+// Fixed-window, in-memory rate limiter keyed by client address
+
+export interface RateLimitResult {
+  allowed: boolean;
+  // Seconds until the current window resets
+  retryAfter: number;
+}
+
+export const createRateLimiter = (maxRequests: number, windowMs: number) => {
+  const windows = new Map<string, { count: number; resetAt: number }>();
+
+  // Drop expired windows now and then so the map does not grow without bound
+  const sweep = (now: number) => {
+    windows.forEach((window, key) => {
+      if (window.resetAt <= now) windows.delete(key);
+    });
+  };
+
+  return (clientId: string): RateLimitResult => {
+    const now = Date.now();
+    if (windows.size > 1000) sweep(now);
+
+    let window = windows.get(clientId);
+    if (!window || window.resetAt <= now) {
+      window = { count: 0, resetAt: now + windowMs };
+      windows.set(clientId, window);
+    }
+
+    window.count++;
+    return {
+      allowed: window.count <= maxRequests,
+      retryAfter: Math.ceil((window.resetAt - now) / 1000),
+    };
+  };
+};
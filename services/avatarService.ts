@@ -0,0 +1,326 @@
+// Avatar-level orchestration on top of the configured providers:
+// persona replies, summaries, memory extraction, explanations and speech.
+
+import { AttributionSource, AvatarProfile, ChatTurn, ExplanationAnalysis, MemoryEntry, MemoryTone, RetrievedMemory, SourceCalibration, SpeechAudio } from "../types";
+import { calibratedScore, calibrateSimilarity } from "../utils/calibrationUtils";
+import { fitHistoryToBudget, getContextSettings } from "../utils/contextUtils";
+import { getMemoryEntries } from "../utils/memoryUtils";
+import { buildSystemPrompt } from "../utils/promptUtils";
+import { getSourcePassages, getTopSimilarity, rankPassages } from "../utils/passageUtils";
+import { compareStyle } from "../utils/stylometryUtils";
+import { cosineSimilarity, isZeroVector } from "../utils/vectorUtils";
+import { embedText, embedTexts, getBaselinePassages } from "./embeddingService";
+import { getChatProvider, getSpeechVoices, getTranscriptionProvider } from "./providerRegistry";
+import { synthesizeCached } from "./speechCacheService";
+
+export interface AvatarResponseOptions {
+  // Memories retrieved for this message; the full memory text is used when omitted
+  retrievedMemories?: RetrievedMemory[];
+  // Rolling summary of turns older than `history`
+  conversationSummary?: string;
+  // Called for every streamed chunk with the new text and the full text so far
+  onChunk?: (delta: string, textSoFar: string) => void;
+}
+
+export const generateAvatarResponse = async (
+  profile: AvatarProfile,
+  inputText: string,
+  history: { role: string; text: string }[],
+  options: AvatarResponseOptions = {}
+): Promise<string> => {
+    const { retrievedMemories, conversationSummary, onChunk } = options;
+
+    // Filter out previous fallback messages so the AI doesn't learn to repeat "I am listening"
+    const cleanHistory = history.filter(msg =>
+        msg.text &&
+        msg.text.trim().length > 0 &&
+        !msg.text.includes("I am listening") &&
+        !msg.text.startsWith("(Silence")
+    );
+
+    // `history` is everything after the summary cutoff, which the caller keeps
+    // within budget by folding turns into the summary (planSummaryUpdate). This
+    // only trims when that summary is behind - in flight or failed - so the
+    // request stays bounded; the recent window is always sent.
+    const recentHistory = fitHistoryToBudget(cleanHistory, getContextSettings(profile));
+
+    const contents: ChatTurn[] = recentHistory.map(msg => ({
+        role: msg.role === 'model' ? 'model' : 'user',
+        text: msg.text
+    }));
+
+    // Add current message
+    contents.push({ role: 'user', text: inputText });
+
+    const result = await getChatProvider().generate({
+        contents,
+        systemInstruction: buildSystemPrompt(profile, retrievedMemories, conversationSummary),
+        sources: (retrievedMemories ? retrievedMemories.map(m => m.entry) : getMemoryEntries(profile)).map(entry => entry.text),
+        maxOutputTokens: 1000,
+        temperature: 0.9,
+        onChunk,
+    });
+
+    // Check for valid text
+    if (result.text) {
+        return result.text;
+    }
+
+    // If no text, check if it was blocked
+    if (result.finishReason && result.finishReason !== 'STOP') {
+        console.warn("Generation stopped due to:", result.finishReason);
+        return `(Silence: ${result.finishReason})`;
+    }
+
+    return "I am listening.";
+};
+
+/**
+ * Folds older turns into the running "conversation so far" summary.
+ */
+export const summarizeConversation = async (
+  profile: AvatarProfile,
+  previousSummary: string,
+  messages: { role: string; text: string }[]
+): Promise<string> => {
+    const transcript = messages
+      .filter(msg => msg.role === 'user' || msg.role === 'model')
+      .map(msg => `${msg.role === 'model' ? profile.name : 'User'}: ${msg.text}`)
+      .join('\n');
+
+    const prompt = `
+    Maintain a running summary of a conversation between the User and ${profile.name}.
+
+    SUMMARY SO FAR:
+    "${previousSummary || '(none yet)'}"
+
+    NEW TURNS:
+    ${transcript}
+
+    TASK:
+    Rewrite the summary so it also covers the new turns. Keep names, facts, promises, open questions
+    and the emotional tone. Write in the third person, plain text, at most 150 words.
+    `;
+
+    const result = await getChatProvider().generate({ contents: prompt, temperature: 0.2 });
+    return result.text.trim() || previousSummary;
+};
+
+export const transcribeAudio = (audioBase64: string, mimeType: string = 'audio/webm'): Promise<string> => {
+    return getTranscriptionProvider().transcribe(audioBase64, mimeType);
+};
+
+/**
+ * Speaks text in the avatar's voice. The cloned voice is tried first and the
+ * generic prebuilt voice is the fallback. Repeated text is served from the local cache.
+ */
+export const synthesizeAvatarSpeech = async (profile: AvatarProfile, text: string): Promise<SpeechAudio> => {
+    const voices = getSpeechVoices(profile);
+    let lastError: unknown;
+
+    for (const { provider, voiceId, options } of voices) {
+        try {
+            return await synthesizeCached(provider, text, voiceId, options);
+        } catch (e) {
+            console.error(`${provider.name} TTS failed${voices.length > 1 ? ', trying next voice' : ''}`, e);
+            lastError = e;
+        }
+    }
+    throw lastError;
+};
+
+// --- MEMORY EXTRACTION ---
+
+/**
+ * Proposes new long-term facts the user shared in one exchange
+ * (e.g. "your granddaughter Mia just started college").
+ * Results are only candidates; nothing is stored until the user approves them.
+ */
+export const extractMemoryCandidates = async (
+  profile: AvatarProfile,
+  userMessage: string,
+  botResponse: string
+): Promise<Omit<MemoryEntry, 'id'>[]> => {
+    const prompt = `
+    You maintain the long-term memory of "${profile.name}", a persona in a conversation.
+
+    KNOWN MEMORIES:
+    "${profile.memories.substring(0, 4000)}"
+
+    LATEST EXCHANGE:
+    - User: "${userMessage}"
+    - ${profile.name}: "${botResponse}"
+
+    TASK:
+    List NEW, durable facts the USER stated that ${profile.name} should remember in future conversations
+    (family news, names, dates, life events, preferences). Write each fact from ${profile.name}'s point of view.
+    Ignore small talk, questions, anything the persona said, and facts already in KNOWN MEMORIES.
+    Return an empty list when there is nothing new.
+
+    Return JSON format only.
+    `;
+
+    try {
+        const response = await getChatProvider().generate({
+            contents: prompt,
+            jsonSchema: {
+                type: "object",
+                properties: {
+                    facts: {
+                        type: "array",
+                        items: {
+                            type: "object",
+                            properties: {
+                                title: { type: "string", description: "Short label for the fact." },
+                                text: { type: "string", description: "The fact, in the first person." },
+                                date: { type: "string", description: "Year or era if mentioned." },
+                                people: { type: "array", items: { type: "string" } }
+                            },
+                            required: ["text"]
+                        }
+                    }
+                }
+            }
+        });
+
+        // The shape jsonSchema asks for, though the model may leave fields out
+        const result: { facts?: Partial<Record<'title' | 'text' | 'date', string> & { people: string[] }>[] } =
+            JSON.parse(response.text || "{}");
+        const facts = Array.isArray(result.facts) ? result.facts : [];
+
+        return facts
+            .filter((fact): fact is typeof fact & { text: string } => typeof fact?.text === 'string' && !!fact.text.trim())
+            .map(fact => ({
+                title: fact.title || undefined,
+                text: fact.text.trim(),
+                date: fact.date || undefined,
+                people: Array.isArray(fact.people) ? fact.people : [],
+                tone: MemoryTone.Neutral,
+                source: 'Learned in chat',
+            }));
+    } catch (e) {
+        console.warn("Memory extraction failed", e);
+        return [];
+    }
+};
+
+// --- HYBRID EXPLAINABILITY SERVICE ---
+
+export const explainResponse = async (
+  profile: AvatarProfile,
+  userMessage: string,
+  botResponse: string
+): Promise<ExplanationAnalysis> => {
+    // Embeddings mostly measure topic; stylometry measures whether the reply sounds like the person
+    const stylometry = compareStyle(botResponse, profile.styleSamples || '') || undefined;
+
+    try {
+        // 1. CALCULATE ACTUAL SCORES (Technical Explainability)
+        // Every profile sentence is scored against the reply, so the trace points at
+        // the passages that shaped it rather than at whole documents. Passage
+        // embeddings are precomputed when the profile is saved, so only the reply is new.
+        const passages = getSourcePassages(profile);
+        const baselinePassages = await getBaselinePassages(profile);
+        const [responseEmb, passageEmbs, baselineEmbs] = await Promise.all([
+            embedText(botResponse),
+            embedTexts(passages.map(passage => passage.text)),
+            embedTexts(baselinePassages.map(passage => passage.text))
+        ]);
+        if (isZeroVector(responseEmb)) throw new Error("Reply could not be embedded");
+
+        const ranked = rankPassages(passages, passageEmbs.map(emb => cosineSimilarity(responseEmb, emb)));
+        const baselineSimilarities = baselineEmbs.map(emb => cosineSimilarity(responseEmb, emb));
+
+        // Calibrate each source against the baseline, so a generic reply that is merely
+        // on topic does not read as grounded in this avatar's memories
+        const calibrate = (source: AttributionSource): SourceCalibration => calibrateSimilarity(
+            getTopSimilarity(ranked, source),
+            passages.filter(passage => passage.source === source).length,
+            baselineSimilarities.filter((_, i) => baselinePassages[i].source === source)
+        );
+        const calibration = {
+            memory: calibrate('memory'),
+            style: calibrate('style'),
+            personality: calibrate('personality'),
+        };
+
+        const finalMemScore = calibratedScore(calibration.memory);
+        const finalStyleScore = calibratedScore(calibration.style);
+        const finalPersScore = calibratedScore(calibration.personality);
+
+        const describe = ({ level, confidence }: SourceCalibration) => `${level}, ${Math.round(confidence * 100)}% confidence`;
+
+        const phrases = stylometry?.signaturePhrasesUsed.map(phrase => `"${phrase}"`).join(', ');
+        const voiceMatch = !stylometry
+            ? 'not enough style samples'
+            : `${stylometry.score}%${phrases ? `, uses the signature phrases ${phrases}` : ''}`;
+
+        const topPassages = ranked
+            .slice(0, 4)
+            .map(passage => `        - [${passage.source}, ${passage.similarity.toFixed(2)}] "${passage.text}"`)
+            .join('\n');
+
+        // 2. GENERATE NARRATIVE REASONING (LLM)
+        // We feed the *Actual* scores to the LLM so it explains the math, rather than making up numbers.
+        const prompt = `
+        You are an expert AI Interpretable System Analyst.
+
+        DATA:
+        - Bot Name: "${profile.name}"
+        - User Input: "${userMessage}"
+        - Bot Response: "${botResponse}"
+
+        CALCULATED VECTOR SCORES (Cosine similarity above a baseline of unrelated text):
+        - Personality Alignment: ${finalPersScore}% (${describe(calibration.personality)})
+        - Memory Retrieval: ${finalMemScore}% (${describe(calibration.memory)})
+        - Style Match: ${finalStyleScore}% (${describe(calibration.style)})
+        - Stylometric Voice Match: ${voiceMatch}
+
+        "grounded" means the reply is closer to the avatar's own text than unrelated text plausibly gets.
+        "topical" means it is only about the same kind of subject; do not claim it used that source.
+
+        MOST SIMILAR PROFILE PASSAGES:
+${topPassages || '        (none)'}
+
+        TASK:
+        Provide a brief "Cognitive Trace" explanation (1-2 sentences).
+        Explain WHY the bot responded this way, referencing the scores above.
+        For example, if Memory is high, mention which memory it drew on. If Style is high, mention the excerpt whose tone it matched.
+
+        Return JSON format only.
+        `;
+
+        const response = await getChatProvider().generate({
+            contents: prompt,
+            jsonSchema: {
+                type: "object",
+                properties: {
+                    reasoning: { type: "string", description: "Explanation of the response based on vector scores." }
+                }
+            }
+        });
+
+        const jsonText = response.text || "{}";
+        const result = JSON.parse(jsonText);
+
+        return {
+            personalityScore: finalPersScore,
+            memoriesScore: finalMemScore,
+            styleScore: finalStyleScore,
+            reasoning: result.reasoning || "Analysis complete.",
+            passages: ranked,
+            calibration,
+            stylometry
+        };
+
+    } catch (e) {
+        console.error("Explanation failed", e);
+        return {
+            personalityScore: 0,
+            memoriesScore: 0,
+            styleScore: 0,
+            reasoning: "Could not generate explanation.",
+            stylometry
+        };
+    }
+};
@@ -0,0 +1,205 @@
+// Export and import of an avatar as one portable bundle file, so families can
+// back up an avatar or share it with relatives on another device.
+
+import { BUNDLE_FILE_EXTENSION, BUNDLE_FORMAT, BUNDLE_VERSION, PROFILE_SCHEMA_VERSION } from "../constants";
+import { BundleManifest, ConversationThread, MediaAsset, MemoryEntry, ProfileBundle, StoredProfile, VoiceOption } from "../types";
+import { STORES, withTransaction } from "../utils/dbUtils";
+import { detectImageMimeType } from "../utils/imageUtils";
+import { getProfile, prepareImportedProfile } from "./profileService";
+import { listThreads, prepareImportedThreads } from "./threadService";
+
+const isRecord = (value: unknown): value is Record<string, unknown> =>
+  typeof value === 'object' && value !== null && !Array.isArray(value);
+
+const isMediaAsset = (value: unknown): value is MediaAsset =>
+  isRecord(value) && typeof value.base64 === 'string' && value.base64.length > 0 && typeof value.mimeType === 'string';
+
+const isThread = (value: unknown): value is ConversationThread =>
+  isRecord(value) && Array.isArray(value.messages) && typeof value.createdAt === 'number';
+
+const isMemoryEntry = (value: unknown): value is MemoryEntry =>
+  isRecord(value) && typeof value.id === 'string' && typeof value.text === 'string';
+
+const asString = (value: unknown, fallback = ''): string => typeof value === 'string' ? value : fallback;
+
+const asOptionalString = (value: unknown): string | undefined => typeof value === 'string' ? value : undefined;
+
+// Settings are merged with defaults where they are read, so only the shape is checked
+const asOptionalRecord = <T>(value: unknown): T | undefined => isRecord(value) ? value as T : undefined;
+
+export const getBundleFileName = (name: string): string => {
+  const slug = name.trim().toLowerCase().replace(/[^a-z0-9]+/g, '-').replace(/^-|-$/g, '');
+  return `${slug || 'avatar'}${BUNDLE_FILE_EXTENSION}`;
+};
+
+export const exportProfileBundle = async (id: string): Promise<ProfileBundle> => {
+  const record = await getProfile(id);
+  if (!record) {
+    throw new Error(`Profile ${id} does not exist`);
+  }
+
+  const { imageBase64, voiceSample, photos = [], ...profile } = record.profile;
+  return {
+    format: BUNDLE_FORMAT,
+    bundleVersion: BUNDLE_VERSION,
+    exportedAt: Date.now(),
+    manifest: {
+      schemaVersion: record.schemaVersion,
+      createdAt: record.createdAt,
+      updatedAt: record.updatedAt,
+      profile: {
+        ...profile,
+        photos: photos.map(({ base64, ...photo }) => photo),
+      },
+    },
+    assets: {
+      portrait: { base64: imageBase64, mimeType: detectImageMimeType(imageBase64) },
+      ...(voiceSample && { voiceSample }),
+      photos: Object.fromEntries(photos.map(photo => [
+        photo.id,
+        { base64: photo.base64, mimeType: detectImageMimeType(photo.base64) },
+      ])),
+    },
+    threads: await listThreads(id),
+  };
+};
+
+/**
+ * Parses and validates bundle file contents. Throws with a message fit for
+ * showing to the user when the file is not a bundle this version can read.
+ */
+export const parseProfileBundle = (text: string): ProfileBundle => {
+  let bundle: unknown;
+  try {
+    bundle = JSON.parse(text);
+  } catch (e) {
+    throw new Error('The file is not a valid avatar bundle.');
+  }
+
+  if (!isRecord(bundle) || bundle.format !== BUNDLE_FORMAT) {
+    throw new Error('The file is not an avatar bundle.');
+  }
+  if (typeof bundle.bundleVersion !== 'number' || bundle.bundleVersion > BUNDLE_VERSION) {
+    throw new Error('This bundle was made by a newer version of the app. Please update and try again.');
+  }
+
+  const { manifest, assets } = bundle;
+  if (!isRecord(manifest) || typeof manifest.schemaVersion !== 'number' || manifest.schemaVersion > PROFILE_SCHEMA_VERSION) {
+    throw new Error('This avatar was saved by a newer version of the app. Please update and try again.');
+  }
+  const { profile } = manifest;
+  if (!isRecord(profile) || typeof profile.id !== 'string' || typeof profile.name !== 'string' || !profile.name.trim()) {
+    throw new Error('The bundle is missing the avatar name.');
+  }
+  if (!isRecord(assets) || !isMediaAsset(assets.portrait)) {
+    throw new Error('The bundle is missing the portrait.');
+  }
+  if (assets.voiceSample !== undefined && !isMediaAsset(assets.voiceSample)) {
+    throw new Error('The bundled voice sample is damaged.');
+  }
+
+  const photos = profile.photos ?? [];
+  const photoAssets = isRecord(assets.photos) ? assets.photos : {};
+  if (!Array.isArray(photos) || !photos.every(photo => isRecord(photo) && typeof photo.id === 'string' && isMediaAsset(photoAssets[photo.id]))) {
+    throw new Error('Some bundled photos are missing or damaged.');
+  }
+
+  const memoryEntries = Array.isArray(profile.memoryEntries) && profile.memoryEntries.every(isMemoryEntry)
+    ? profile.memoryEntries
+    : undefined;
+  if (profile.memoryEntries !== undefined && !memoryEntries) {
+    throw new Error('The bundled memories are damaged.');
+  }
+
+  const threads = bundle.threads ?? [];
+  if (!Array.isArray(threads) || !threads.every(isThread)) {
+    throw new Error('The bundled conversations are damaged.');
+  }
+
+  // Text fields the chat reads directly default to empty, so older or
+  // hand-edited bundles still import
+  const manifestProfile: BundleManifest['profile'] = {
+    id: profile.id,
+    name: profile.name,
+    personality: asString(profile.personality),
+    styleSamples: asString(profile.styleSamples),
+    memories: asString(profile.memories),
+    voiceName: asString(profile.voiceName, VoiceOption.Kore),
+    elevenLabsVoiceId: asOptionalString(profile.elevenLabsVoiceId),
+    memoryEntries,
+    contextSettings: asOptionalRecord(profile.contextSettings),
+    faceLayout: asOptionalRecord(profile.faceLayout),
+    photos: photos.map(photo => ({
+      id: photo.id,
+      era: asString(photo.era),
+      caption: asOptionalString(photo.caption),
+      faceLayout: asOptionalRecord(photo.faceLayout),
+      memoryIds: Array.isArray(photo.memoryIds) ? photo.memoryIds.filter(id => typeof id === 'string') : undefined,
+    })),
+    voiceSettings: asOptionalRecord(profile.voiceSettings),
+    voiceModel: asOptionalString(profile.voiceModel),
+    liveSettings: asOptionalRecord(profile.liveSettings),
+  };
+
+  return {
+    format: bundle.format,
+    bundleVersion: bundle.bundleVersion,
+    exportedAt: typeof bundle.exportedAt === 'number' ? bundle.exportedAt : Date.now(),
+    manifest: {
+      schemaVersion: manifest.schemaVersion,
+      createdAt: typeof manifest.createdAt === 'number' ? manifest.createdAt : Date.now(),
+      updatedAt: typeof manifest.updatedAt === 'number' ? manifest.updatedAt : Date.now(),
+      profile: manifestProfile,
+    },
+    assets: {
+      portrait: assets.portrait,
+      voiceSample: isMediaAsset(assets.voiceSample) ? assets.voiceSample : undefined,
+      photos: Object.fromEntries(photos.map(photo => [photo.id, photoAssets[photo.id]]).filter(([, asset]) => isMediaAsset(asset))),
+    },
+    threads,
+  };
+};
+
+/**
+ * True when the bundle's avatar already exists in this library, e.g. when a
+ * relative sends back an avatar that was originally shared from here.
+ */
+export const hasProfileConflict = async (bundle: ProfileBundle): Promise<boolean> => {
+  return !!(await getProfile(bundle.manifest.profile.id));
+};
+
+/**
+ * Saves the bundle's avatar and conversations, migrating older schemas.
+ * With asCopy the avatar is added alongside an existing one with the same id;
+ * otherwise the existing avatar and its conversations are replaced.
+ * Everything is written in one transaction, so a failed import changes nothing.
+ */
+export const importProfileBundle = async (bundle: ProfileBundle, asCopy: boolean): Promise<StoredProfile> => {
+  const { manifest, assets } = bundle;
+
+  const saved = prepareImportedProfile({
+    schemaVersion: manifest.schemaVersion,
+    createdAt: manifest.createdAt,
+    updatedAt: manifest.updatedAt,
+    profile: {
+      ...manifest.profile,
+      imageBase64: assets.portrait.base64,
+      voiceSample: assets.voiceSample,
+      photos: (manifest.profile.photos || []).map(photo => ({ ...photo, base64: assets.photos![photo.id].base64 })),
+    },
+  }, asCopy);
+  const threads = prepareImportedThreads(saved.profile.id, bundle.threads);
+
+  await withTransaction([STORES.PROFILES, STORES.THREADS], tx => {
+    tx.objectStore(STORES.PROFILES).put(saved);
+    const threadStore = tx.objectStore(STORES.THREADS);
+    if (!asCopy) {
+      // Requests run in order, so these keys are read before the new threads are added
+      const existing = threadStore.index('profileId').getAllKeys(saved.profile.id);
+      existing.onsuccess = () => existing.result.forEach(key => threadStore.delete(key));
+    }
+    threads.forEach(thread => threadStore.put(thread));
+  });
+
+  return saved;
+};
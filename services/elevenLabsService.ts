@@ -1,16 +1,13 @@
 
 // Service for interacting with ElevenLabs API
 
-// --- ELEVENLABS API KEY CONFIGURATION ---
-// PASTE YOUR ELEVENLABS API KEY BETWEEN THE QUOTES BELOW
-const HARDCODED_XI_API_KEY = "sk_0f1f5fe9ff30abaa5a30cdfe97a25b760e8cb240d97416f6"; 
-// ----------------------------------------
+import { ClonedVoice, SpeechAlignment, SpeechAudio, SpeechOptions, SpeechProvider } from "../types";
+import { base64ToBytes } from "../utils/audioUtils";
+import { postJson } from "./proxyClient";
 
-export const createElevenLabsVoice = async (name: string, sampleBlob: Blob): Promise<string> => {
-  if (!HARDCODED_XI_API_KEY) {
-      throw new Error("ElevenLabs API Key is missing. Please set HARDCODED_XI_API_KEY in services/elevenLabsService.ts");
-  }
+// Requests go through the local API proxy, which holds the ElevenLabs key.
 
+export const createElevenLabsVoice = async (name: string, sampleBlob: Blob): Promise<string> => {
   const formData = new FormData();
   formData.append('name', name);
   
@@ -25,59 +22,44 @@ export const createElevenLabsVoice = async (name: string, sampleBlob: Blob): Pro
   
   formData.append('description', 'Cloned via PersonaAI');
   
-  const response = await fetch('https://api.elevenlabs.io/v1/voices/add', {
-    method: 'POST',
-    headers: {
-      'xi-api-key': HARDCODED_XI_API_KEY,
-      // Content-Type is set automatically by fetch for FormData
-    },
-    body: formData,
-  });
-
-  if (!response.ok) {
-    const errorText = await response.text();
-    let errorMessage = errorText;
-    try {
-        const errorJson = JSON.parse(errorText);
-        errorMessage = errorJson.detail?.message || errorJson.detail || errorText;
-    } catch (e) {}
-    
-    console.error("ElevenLabs Add Voice Error", errorMessage);
-    throw new Error(`ElevenLabs Error: ${errorMessage}`);
+  try {
+    const { voiceId } = await postJson<{ voiceId: string }>('/elevenlabs/voices', formData);
+    return voiceId;
+  } catch (e) {
+    console.error("ElevenLabs Add Voice Error", e);
+    throw e;
   }
-
-  const data = await response.json();
-  return data.voice_id;
 };
 
-export const generateElevenLabsSpeech = async (voiceId: string, text: string): Promise<ArrayBuffer> => {
-  if (!HARDCODED_XI_API_KEY) {
-      throw new Error("ElevenLabs API Key is missing.");
+export const generateElevenLabsSpeech = async (voiceId: string, text: string, options: SpeechOptions = {}): Promise<SpeechAudio> => {
+  try {
+    const { audioBase64, alignment } = await postJson<{ audioBase64: string; alignment?: SpeechAlignment }>(
+      '/elevenlabs/tts', { voiceId, text, settings: options.settings, modelId: options.modelId }
+    );
+    return {
+      data: base64ToBytes(audioBase64).buffer as ArrayBuffer,
+      format: 'encoded',
+      alignment,
+    };
+  } catch (e) {
+    console.error("ElevenLabs TTS Error", e);
+    throw new Error(`ElevenLabs TTS Error: ${e instanceof Error ? e.message : e}`);
   }
+};
 
-  const modelId = "eleven_multilingual_v2"; 
-  
-  const response = await fetch(`https://api.elevenlabs.io/v1/text-to-speech/${voiceId}`, {
-    method: 'POST',
-    headers: {
-      'xi-api-key': HARDCODED_XI_API_KEY,
-      'Content-Type': 'application/json',
-    },
-    body: JSON.stringify({
-      text,
-      model_id: modelId,
-      voice_settings: {
-        stability: 0.5,
-        similarity_boost: 0.75,
-      }
-    }),
-  });
+export const listElevenLabsVoices = async (): Promise<ClonedVoice[]> => {
+  const { voices } = await postJson<{ voices: ClonedVoice[] }>('/elevenlabs/voices/list', {});
+  return voices;
+};
 
-  if (!response.ok) {
-    const errorText = await response.text();
-    console.error("ElevenLabs TTS Error", errorText);
-    throw new Error(`ElevenLabs TTS Error: ${response.status} ${response.statusText}`);
-  }
+export const deleteElevenLabsVoice = async (voiceId: string): Promise<void> => {
+  await postJson('/elevenlabs/voices/delete', { voiceId });
+};
 
-  return await response.arrayBuffer();
+export const elevenLabsSpeechProvider: SpeechProvider = {
+  name: 'elevenlabs',
+  synthesize: (text: string, voiceId: string, options?: SpeechOptions) => generateElevenLabsSpeech(voiceId, text, options),
+  cloneVoice: createElevenLabsVoice,
+  listVoices: listElevenLabsVoices,
+  deleteVoice: deleteElevenLabsVoice,
 };
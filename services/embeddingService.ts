@@ -0,0 +1,134 @@
+// Local embedding cache backed by IndexedDB, keyed by model + content hash.
+// Only profile sources are stored there; one-off texts such as messages and
+// replies are kept in a small in-memory cache so the store stays bounded.
+
+import { BASELINE_TEXTS, CALIBRATION, EMBEDDING_SESSION_CACHE_SIZE } from "../constants";
+import { AttributionSource, AvatarProfile } from "../types";
+import { STORES, withStore } from "../utils/dbUtils";
+import { formatMemoryForEmbedding, getMemoryEntries } from "../utils/memoryUtils";
+import { getSourcePassages, SourcePassage } from "../utils/passageUtils";
+import { hashText, isZeroVector } from "../utils/vectorUtils";
+import { listProfiles } from "./profileService";
+import { getEmbeddingProvider } from "./providerRegistry";
+
+interface CachedEmbedding {
+  key: string;
+  model: string;
+  vector: number[];
+  createdAt: number;
+}
+
+const getCacheKey = (model: string, text: string): string => `${model}:${hashText(text)}`;
+
+// Insertion order doubles as recency: hits are moved to the end
+const sessionCache = new Map<string, number[]>();
+
+const readSessionCache = (key: string): number[] | null => {
+  const vector = sessionCache.get(key);
+  if (!vector) return null;
+  sessionCache.delete(key);
+  sessionCache.set(key, vector);
+  return vector;
+};
+
+const writeSessionCache = (key: string, vector: number[]): void => {
+  sessionCache.set(key, vector);
+  if (sessionCache.size > EMBEDDING_SESSION_CACHE_SIZE) {
+    sessionCache.delete(sessionCache.keys().next().value!);
+  }
+};
+
+const readCache = async (key: string): Promise<number[] | null> => {
+  try {
+    const record: CachedEmbedding | undefined = await withStore(STORES.EMBEDDINGS, 'readonly', store => store.get(key));
+    return record?.vector || null;
+  } catch (e) {
+    console.warn("Embedding cache read failed", e);
+    return null;
+  }
+};
+
+const writeCache = async (key: string, model: string, vector: number[]): Promise<void> => {
+  try {
+    const record: CachedEmbedding = { key, model, vector, createdAt: Date.now() };
+    await withStore(STORES.EMBEDDINGS, 'readwrite', store => store.put(record));
+  } catch (e) {
+    console.warn("Embedding cache write failed", e);
+  }
+};
+
+/**
+ * Embeds a one-off text such as a message or reply. Repeats within the session
+ * are served from memory; nothing is persisted.
+ * Failed embeddings (zero vectors) are never cached.
+ */
+export const embedText = async (text: string): Promise<number[]> => {
+  const provider = getEmbeddingProvider();
+  const key = getCacheKey(provider.model, text);
+  const cached = readSessionCache(key);
+  if (cached) return cached;
+
+  const vector = await provider.embed(text);
+  if (!isZeroVector(vector)) {
+    writeSessionCache(key, vector);
+  }
+  return vector;
+};
+
+/**
+ * Embeds many profile source texts, in input order, and persists them.
+ * Cached texts are served locally; the rest are deduplicated and sent in
+ * batches when the provider supports it.
+ */
+export const embedTexts = async (texts: string[]): Promise<number[][]> => {
+  const provider = getEmbeddingProvider();
+  const keys = texts.map(text => getCacheKey(provider.model, text));
+  const vectors = await Promise.all(keys.map(readCache));
+
+  const missing = Array.from(new Set(texts.filter((_, i) => !vectors[i])));
+  if (missing.length === 0) return vectors as number[][];
+
+  const fresh = provider.embedBatch
+    ? await provider.embedBatch(missing)
+    : await Promise.all(missing.map(text => provider.embed(text)));
+  const byText = new Map(missing.map((text, i) => [text, fresh[i]]));
+
+  await Promise.all(missing.map(text => {
+    const vector = byText.get(text)!;
+    return isZeroVector(vector) ? undefined : writeCache(getCacheKey(provider.model, text), provider.model, vector);
+  }));
+  return texts.map((text, i) => vectors[i] || byText.get(text)!);
+};
+
+const ATTRIBUTION_SOURCES: AttributionSource[] = ['memory', 'style', 'personality'];
+
+/**
+ * Text a reply is compared with to see how similar it would be to sources that
+ * are not this avatar's: neutral sentences plus a few other avatars' passages.
+ */
+export const getBaselinePassages = async (profile: AvatarProfile): Promise<SourcePassage[]> => {
+  const others = (await listProfiles())
+    .filter(record => record.profile.id !== profile.id)
+    .sort((a, b) => b.updatedAt - a.updatedAt)
+    .slice(0, CALIBRATION.MAX_BASELINE_PROFILES)
+    .flatMap(record => getSourcePassages(record.profile));
+
+  return ATTRIBUTION_SOURCES.flatMap(source => [
+    ...BASELINE_TEXTS.map(text => ({ source, text, context: text })),
+    ...others.filter(passage => passage.source === source).slice(0, CALIBRATION.MAX_BASELINE_PASSAGES),
+  ]);
+};
+
+/**
+ * Fills the cache with everything retrieval and explanations embed for a
+ * profile (including the calibration baseline), so later only the user's
+ * message or the reply needs a network call.
+ */
+export const precomputeProfileEmbeddings = async (profile: AvatarProfile): Promise<void> => {
+  const texts = [
+    ...getMemoryEntries(profile).map(formatMemoryForEmbedding),
+    ...getSourcePassages(profile).map(passage => passage.text),
+    ...(await getBaselinePassages(profile)).map(passage => passage.text),
+  ];
+  await embedTexts(texts);
+};
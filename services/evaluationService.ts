@@ -0,0 +1,63 @@
+// Persona consistency evaluation: runs a suite of probe questions through the
+// same reply path as the chat and scores each answer (utils/evaluationUtils.ts)
+
+import { EvalCheckKey, EvalProbeResult, EvalReport, EvalSuite } from "../types";
+import { runChecks, scoreChecks } from "../utils/evaluationUtils";
+import { generateAvatarResponse } from "./avatarService";
+import { getChatProvider } from "./providerRegistry";
+
+export interface EvaluationOptions {
+  model?: string; // Shown in the report next to the provider name
+  onProbe?: (result: EvalProbeResult, index: number, total: number) => void;
+}
+
+/**
+ * Asks every probe in turn and scores the replies. Probes run one at a time
+ * so rate limits are not hit; a failing request is recorded, not thrown.
+ * The full memory text is given to the model rather than retrieved memories.
+ */
+export const runEvaluation = async (suite: EvalSuite, options: EvaluationOptions = {}): Promise<EvalReport> => {
+  const started = Date.now();
+  const provider = getChatProvider().name;
+  const results: EvalProbeResult[] = [];
+
+  for (const [index, probe] of suite.probes.entries()) {
+    const probeStarted = Date.now();
+    let result: EvalProbeResult;
+    try {
+      const reply = await generateAvatarResponse(suite.profile, probe.question, probe.history || []);
+      const checks = runChecks(reply, probe, suite.profile);
+      result = { probe, reply, checks, ...scoreChecks(checks), durationMs: Date.now() - probeStarted };
+    } catch (e) {
+      result = {
+        probe,
+        reply: '',
+        checks: [],
+        score: 0,
+        passed: false,
+        durationMs: Date.now() - probeStarted,
+        error: e instanceof Error ? e.message : String(e),
+      };
+    }
+    results.push(result);
+    options.onProbe?.(result, index, suite.probes.length);
+  }
+
+  const checkScores: Partial<Record<EvalCheckKey, number>> = {};
+  (['facts', 'forbiddenClaims', 'character', 'format', 'style'] as EvalCheckKey[]).forEach(key => {
+    const scores = results.flatMap(result => result.checks.filter(check => check.key === key).map(check => check.score));
+    if (scores.length) checkScores[key] = Math.round(scores.reduce((sum, score) => sum + score, 0) / scores.length * 100);
+  });
+
+  return {
+    suite: suite.name,
+    avatar: suite.profile.name,
+    provider: options.model ? `${provider} (${options.model})` : provider,
+    startedAt: new Date(started).toISOString(),
+    durationMs: Date.now() - started,
+    score: results.length ? Math.round(results.reduce((sum, result) => sum + result.score, 0) / results.length) : 0,
+    passRate: results.length ? results.filter(result => result.passed).length / results.length : 0,
+    checkScores,
+    results,
+  };
+};
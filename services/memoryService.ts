@@ -0,0 +1,34 @@
+// Retrieval over an avatar's memories: top-k entries by cosine similarity
+
+import { MEMORY_TOP_K } from "../constants";
+import { AvatarProfile, RetrievedMemory } from "../types";
+import { formatMemoryForEmbedding, getMemoryEntries } from "../utils/memoryUtils";
+import { cosineSimilarity, isZeroVector } from "../utils/vectorUtils";
+import { embedText, embedTexts } from "./embeddingService";
+
+/**
+ * Finds the memories most relevant to a user message.
+ * Entry embeddings are cached, so only the query costs a network call
+ * after the first retrieval.
+ */
+export const retrieveMemories = async (
+  profile: AvatarProfile,
+  query: string,
+  topK: number = MEMORY_TOP_K
+): Promise<RetrievedMemory[]> => {
+  const entries = getMemoryEntries(profile);
+  if (entries.length === 0) return [];
+
+  const queryEmbedding = await embedText(query);
+  if (isZeroVector(queryEmbedding)) {
+    // Embedding unavailable: fall back to the first entries so the avatar keeps some grounding
+    return entries.slice(0, topK).map(entry => ({ entry, score: 0 }));
+  }
+
+  const entryEmbeddings = await embedTexts(entries.map(formatMemoryForEmbedding));
+
+  return entries
+    .map((entry, i) => ({ entry, score: cosineSimilarity(queryEmbedding, entryEmbeddings[i]) }))
+    .sort((a, b) => b.score - a.score)
+    .slice(0, topK);
+};
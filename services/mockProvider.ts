@@ -0,0 +1,203 @@
+// Deterministic offline provider for development and tests.
+// Same input always gives the same output, and nothing touches the network.
+// Chat replies quote the avatar's memory that best matches the message, if any.
+
+import { AUDIO_SAMPLE_RATE_OUTPUT } from "../constants";
+import {
+  ChatProvider,
+  ChatRequest,
+  ClonedVoice,
+  ChatResult,
+  EmbeddingProvider,
+  RealtimeConnectOptions,
+  RealtimeProvider,
+  RealtimeSession,
+  SpeechAlignment,
+  SpeechAudio,
+  SpeechProvider,
+  TranscriptionProvider,
+} from "../types";
+import { bytesToBase64 } from "../utils/audioUtils";
+import { hashText } from "../utils/vectorUtils";
+
+const MOCK_EMBEDDING_DIMENSIONS = 768;
+const MOCK_SECONDS_PER_CHAR = 0.06;
+
+const MOCK_REPLIES = [
+  "I remember that like it was yesterday.",
+  "Oh, you always did know how to make me smile.",
+  "That takes me back. Tell me more, dear.",
+  "Well, I never thought I'd hear you ask about that.",
+];
+
+const tokenize = (text: string): string[] => text.toLowerCase().match(/[a-z0-9']+/g) || [];
+
+// Shorter words are mostly "the", "was", "you" and match everything
+const MIN_MATCH_WORD_LENGTH = 4;
+
+/**
+ * Builds an empty-but-valid value for a JSON schema so structured requests
+ * (explanations, memory extraction) parse without special cases.
+ */
+const buildMockJson = (schema: Record<string, unknown>): unknown => {
+  switch (schema.type) {
+    case 'object': {
+      const result: Record<string, unknown> = {};
+      Object.entries((schema.properties || {}) as Record<string, Record<string, unknown>>).forEach(([key, value]) => {
+        result[key] = buildMockJson(value);
+      });
+      return result;
+    }
+    case 'array': return [];
+    case 'number':
+    case 'integer': return 0;
+    case 'boolean': return false;
+    default: return 'Mock analysis.';
+  }
+};
+
+const getLastUserText = (request: ChatRequest): string => {
+  if (typeof request.contents === 'string') return request.contents;
+  const lastUser = [...request.contents].reverse().find(turn => turn.role === 'user');
+  return lastUser?.text || '';
+};
+
+/**
+ * The memory line sharing the most words with the message, without its
+ * "1962:" style label, so replies stay grounded enough for persona evaluations.
+ */
+const findMemoryLine = (request: ChatRequest, userText: string): string | undefined => {
+  const words = new Set(tokenize(userText).filter(word => word.length >= MIN_MATCH_WORD_LENGTH));
+  let best: { line: string; matches: number } | undefined;
+  (request.sources || []).forEach(source => {
+    const line = source.trim().replace(/^[^:]{1,12}:\s*/, '');
+    if (!line) return;
+    const matches = new Set(tokenize(line).filter(word => words.has(word))).size;
+    if (matches > 0 && (!best || matches > best.matches)) best = { line, matches };
+  });
+  return best?.line;
+};
+
+const mockReply = (request: ChatRequest): string => {
+  const userText = getLastUserText(request);
+  const canned = MOCK_REPLIES[parseInt(hashText(userText).slice(-4), 16) % MOCK_REPLIES.length];
+  const memory = findMemoryLine(request, userText);
+  return memory ? `${canned} ${memory}` : canned;
+};
+
+const mockGenerate = async (request: ChatRequest): Promise<ChatResult> => {
+  const text = request.jsonSchema
+    ? JSON.stringify(buildMockJson(request.jsonSchema))
+    : mockReply(request);
+
+  // Stream word by word so streaming code paths get exercised offline
+  if (request.onChunk) {
+    let textSoFar = '';
+    text.split(/(?<=\s)/).forEach(delta => {
+      textSoFar += delta;
+      request.onChunk!(delta, textSoFar);
+    });
+  }
+
+  return { text, finishReason: 'STOP' };
+};
+
+/**
+ * Hashed bag-of-words vector: texts sharing words get similar vectors, which
+ * keeps retrieval and explainability meaningful offline.
+ */
+const mockEmbed = async (text: string): Promise<number[]> => {
+  const vector = Array(MOCK_EMBEDDING_DIMENSIONS).fill(0);
+  tokenize(text).forEach(token => {
+    const hash = parseInt(hashText(token).slice(-6), 16);
+    vector[hash % MOCK_EMBEDDING_DIMENSIONS] += (hash & 1) ? 1 : -1;
+  });
+  return vector;
+};
+
+// Silent PCM16 sized to roughly match speaking the text aloud
+const createSilentPcm = (text: string): ArrayBuffer => {
+  const seconds = Math.max(0.2, text.length * MOCK_SECONDS_PER_CHAR);
+  return new Int16Array(Math.round(seconds * AUDIO_SAMPLE_RATE_OUTPUT)).buffer;
+};
+
+// Even character timings, so lip sync can be exercised offline
+const createMockAlignment = (text: string): SpeechAlignment => {
+  const characters = Array.from(text);
+  const step = Math.max(0.2, text.length * MOCK_SECONDS_PER_CHAR) / Math.max(1, characters.length);
+  return {
+    characters,
+    startTimes: characters.map((_, i) => i * step),
+    endTimes: characters.map((_, i) => (i + 1) * step),
+  };
+};
+
+const mockSynthesize = async (text: string): Promise<SpeechAudio> => ({
+  data: createSilentPcm(text),
+  format: 'pcm16',
+  sampleRate: AUDIO_SAMPLE_RATE_OUTPUT,
+  alignment: createMockAlignment(text),
+});
+
+const mockConnect = async (options: RealtimeConnectOptions): Promise<RealtimeSession> => {
+  let closed = false;
+
+  // Greet once, like the avatar picking up the call
+  setTimeout(() => {
+    if (closed) return;
+    options.onOpen();
+    const greeting = MOCK_REPLIES[0];
+    const audioBase64 = bytesToBase64(new Uint8Array(createSilentPcm(greeting)));
+    options.onEvent({ outputTranscript: greeting, audioBase64 });
+    options.onEvent({ turnComplete: true });
+  }, 0);
+
+  return {
+    sendAudio: () => {},
+    endAudioStream: () => {},
+    close: () => {
+      if (closed) return;
+      closed = true;
+      options.onClose('Mock session closed');
+    },
+  };
+};
+
+export const mockChatProvider: ChatProvider = {
+  name: 'mock',
+  generate: mockGenerate,
+};
+
+// Cloned voices live for the page session, like a throwaway vendor account
+const mockClonedVoices = new Map<string, ClonedVoice>();
+
+export const mockSpeechProvider: SpeechProvider = {
+  name: 'mock',
+  synthesize: mockSynthesize,
+  cloneVoice: async (name: string) => {
+    const voiceId = `mock-voice-${hashText(name)}`;
+    mockClonedVoices.set(voiceId, { voiceId, name, createdAt: Date.now() });
+    return voiceId;
+  },
+  listVoices: async () => [...mockClonedVoices.values()],
+  deleteVoice: async (voiceId: string) => {
+    mockClonedVoices.delete(voiceId);
+  },
+};
+
+export const mockTranscriptionProvider: TranscriptionProvider = {
+  name: 'mock',
+  transcribe: async (audioBase64: string) => `Mock transcription ${hashText(audioBase64).slice(0, 6)}`,
+};
+
+export const mockEmbeddingProvider: EmbeddingProvider = {
+  name: 'mock',
+  model: 'mock-embedding',
+  embed: mockEmbed,
+  embedBatch: async (texts: string[]) => Promise.all(texts.map(mockEmbed)),
+};
+
+export const mockRealtimeProvider: RealtimeProvider = {
+  name: 'mock',
+  connect: mockConnect,
+};
@@ -0,0 +1,136 @@
+// Portrait preprocessing at avatar creation: finds the face, crops and centres it,
+// and normalizes size and format. The detected layout drives the talking portrait.
+
+import { Detection, FaceDetector, FilesetResolver } from '@mediapipe/tasks-vision';
+import { FACE_DETECTION, PORTRAIT_MAX_UPLOAD_BYTES, PORTRAIT_SIZE } from '../constants';
+import { FaceLayout } from '../types';
+import { loadImage } from '../utils/imageUtils';
+
+// Framing targets, matching DEFAULT_FACE_LAYOUT in utils/portraitAnimator.ts
+const FACE_FILL = 0.46; // Face width as a share of the portrait
+const EYE_LINE = 0.42; // Eyes this far down from the top
+const MIN_FACE_PIXELS = 96;
+const JPEG_QUALITY = 0.9;
+
+export interface PreparedPortrait {
+  base64: string; // Square JPEG, PORTRAIT_SIZE pixels
+  faceLayout?: FaceLayout; // Missing when face detection was unavailable
+  warning?: string;
+}
+
+interface CropRect {
+  x: number;
+  y: number;
+  side: number;
+}
+
+let detectorPromise: Promise<FaceDetector> | null = null;
+
+const getFaceDetector = (): Promise<FaceDetector> => {
+  if (!detectorPromise) {
+    detectorPromise = FilesetResolver.forVisionTasks(FACE_DETECTION.WASM_URL)
+      .then(fileset => FaceDetector.createFromOptions(fileset, {
+        baseOptions: { modelAssetPath: FACE_DETECTION.MODEL_URL },
+        runningMode: 'IMAGE',
+        minDetectionConfidence: FACE_DETECTION.MIN_CONFIDENCE,
+      }));
+    // Let the next upload try again after a failed download
+    detectorPromise.catch(() => { detectorPromise = null; });
+  }
+  return detectorPromise;
+};
+
+const clamp = (value: number, min: number, max: number) => Math.min(max, Math.max(min, value));
+
+// Largest square that fits, centred on the image
+const getCenterCrop = (width: number, height: number): CropRect => {
+  const side = Math.min(width, height);
+  return { x: (width - side) / 2, y: (height - side) / 2, side };
+};
+
+const renderCrop = (image: HTMLImageElement, crop: CropRect): string => {
+  const canvas = document.createElement('canvas');
+  canvas.width = PORTRAIT_SIZE;
+  canvas.height = PORTRAIT_SIZE;
+  const ctx = canvas.getContext('2d')!;
+  ctx.imageSmoothingQuality = 'high';
+  ctx.drawImage(image, crop.x, crop.y, crop.side, crop.side, 0, 0, PORTRAIT_SIZE, PORTRAIT_SIZE);
+  return canvas.toDataURL('image/jpeg', JPEG_QUALITY).split(',')[1];
+};
+
+/**
+ * Validates an uploaded photo and turns it into a normalized portrait.
+ * Throws with a user-facing message when the photo has no face or several faces.
+ * When detection is unavailable the photo is only centre-cropped and `warning` says so.
+ */
+export const preparePortrait = async (file: File): Promise<PreparedPortrait> => {
+  if (!file.type.startsWith('image/')) {
+    throw new Error('Please choose an image file (JPEG, PNG or WebP).');
+  }
+  if (file.size > PORTRAIT_MAX_UPLOAD_BYTES) {
+    throw new Error('This photo is too large. Please choose one under 20 MB.');
+  }
+
+  const url = URL.createObjectURL(file);
+  try {
+    const image = await loadImage(url);
+    const width = image.naturalWidth;
+    const height = image.naturalHeight;
+
+    let faces: Detection[];
+    try {
+      faces = (await getFaceDetector()).detect(image).detections;
+    } catch (e) {
+      // The model failed to download or to run: accept the photo, but say it was not checked
+      console.warn("Face detection unavailable", e);
+      return {
+        base64: renderCrop(image, getCenterCrop(width, height)),
+        warning: 'Face detection is unavailable right now, so this photo was not checked or framed around the face, only centre-cropped. Make sure it clearly shows one face, or try again later.',
+      };
+    }
+
+    if (faces.length === 0) {
+      throw new Error("We couldn't find a face in this photo. Please choose a clear, front-facing portrait.");
+    }
+    if (faces.length > 1) {
+      throw new Error(`This photo shows ${faces.length} faces. Please choose one with only your loved one, or crop it first.`);
+    }
+
+    const { boundingBox: box, keypoints } = faces[0];
+    if (!box || keypoints.length < 4) {
+      throw new Error("We couldn't make out the face clearly. Please try a sharper, front-facing photo.");
+    }
+
+    // BlazeFace keypoints: both eyes, nose tip, mouth centre (normalized to the image)
+    const [eyeA, eyeB, , mouth] = keypoints.map(point => ({ x: point.x * width, y: point.y * height }));
+    const [leftEye, rightEye] = eyeA.x <= eyeB.x ? [eyeA, eyeB] : [eyeB, eyeA];
+
+    const side = Math.min(box.width / FACE_FILL, width, height);
+    const eyeY = (leftEye.y + rightEye.y) / 2;
+    const crop: CropRect = {
+      x: clamp(box.originX + box.width / 2 - side / 2, 0, width - side),
+      y: clamp(eyeY - EYE_LINE * side, 0, height - side),
+      side,
+    };
+
+    const toPortrait = (point: { x: number; y: number }) => ({
+      x: (point.x - crop.x) / crop.side,
+      y: (point.y - crop.y) / crop.side,
+    });
+
+    return {
+      base64: renderCrop(image, crop),
+      faceLayout: {
+        leftEye: toPortrait(leftEye),
+        rightEye: toPortrait(rightEye),
+        mouth: toPortrait(mouth),
+        faceWidth: box.width / crop.side,
+      },
+      warning: box.width < MIN_FACE_PIXELS
+        ? 'The face in this photo is quite small, so the portrait may look blurry. A closer photo works best.'
+        : undefined,
+    };
+  } finally {
+    URL.revokeObjectURL(url);
+  }
+};
@@ -0,0 +1,135 @@
+// Local profile repository backed by IndexedDB
+
+import { PROFILE_SCHEMA_VERSION } from "../constants";
+import { AvatarProfile, StoredProfile } from "../types";
+import { STORES, withStore, withTransaction } from "../utils/dbUtils";
+import { chunkMemoryText, createMemoryEntry } from "../utils/memoryUtils";
+
+// A profile as saved by an older schema version
+type LegacyProfile = Partial<AvatarProfile>;
+type Migration = (profile: LegacyProfile) => LegacyProfile;
+
+interface LegacyRecord {
+  schemaVersion?: number;
+  createdAt?: number;
+  updatedAt?: number;
+  profile?: LegacyProfile;
+}
+
+// Each entry upgrades a record from version N to N + 1.
+// Register new steps here whenever PROFILE_SCHEMA_VERSION is bumped.
+const MIGRATIONS: Record<number, Migration> = {
+  // v2: structured memory entries, split out of the free-text memories field
+  1: profile => ({
+    ...profile,
+    memoryEntries: profile.memoryEntries?.length
+      ? profile.memoryEntries
+      : chunkMemoryText(profile.memories || '').map(createMemoryEntry),
+  }),
+};
+
+/**
+ * Brings a stored record up to the current schema version.
+ * Records saved before versioning existed are treated as version 0.
+ */
+export const migrateStoredProfile = (record: LegacyRecord): StoredProfile => {
+  let version = record.schemaVersion ?? 0;
+  // Unversioned records are the bare profile
+  let profile = record.profile ?? (record as LegacyProfile);
+
+  while (version < PROFILE_SCHEMA_VERSION) {
+    const migrate = MIGRATIONS[version];
+    if (migrate) profile = migrate(profile);
+    version++;
+  }
+
+  return {
+    schemaVersion: PROFILE_SCHEMA_VERSION,
+    profile: profile as AvatarProfile,
+    createdAt: record.createdAt ?? Date.now(),
+    updatedAt: record.updatedAt ?? Date.now(),
+  };
+};
+
+const generateId = (): string => {
+  return `${Date.now().toString()}-${Math.random().toString(36).slice(2, 8)}`;
+};
+
+const putRecord = async (record: StoredProfile): Promise<StoredProfile> => {
+  await withStore(STORES.PROFILES, 'readwrite', store => store.put(record));
+  return record;
+};
+
+export const listProfiles = async (): Promise<StoredProfile[]> => {
+  const records = await withStore(STORES.PROFILES, 'readonly', store => store.getAll());
+  const migrated = records.map(migrateStoredProfile);
+
+  // Persist upgrades lazily so the next read is a no-op
+  await Promise.all(
+    migrated
+      .filter((record, i) => records[i].schemaVersion !== record.schemaVersion)
+      .map(putRecord)
+  );
+
+  return migrated.sort((a, b) => b.updatedAt - a.updatedAt);
+};
+
+export const getProfile = async (id: string): Promise<StoredProfile | null> => {
+  const record = await withStore(STORES.PROFILES, 'readonly', store => store.get(id));
+  return record ? migrateStoredProfile(record) : null;
+};
+
+export const createProfile = async (profile: AvatarProfile): Promise<StoredProfile> => {
+  const now = Date.now();
+  return putRecord({
+    schemaVersion: PROFILE_SCHEMA_VERSION,
+    profile: { ...profile, id: profile.id || generateId() },
+    createdAt: now,
+    updatedAt: now,
+  });
+};
+
+export const updateProfile = async (profile: AvatarProfile): Promise<StoredProfile> => {
+  const existing = await getProfile(profile.id);
+  if (!existing) {
+    throw new Error(`Profile ${profile.id} does not exist`);
+  }
+  return putRecord({ ...existing, profile, updatedAt: Date.now() });
+};
+
+/**
+ * Migrates a record exported from another device to the current schema, ready
+ * to store. With asCopy the profile gets a fresh id, leaving an existing one untouched.
+ */
+export const prepareImportedProfile = (record: StoredProfile, asCopy: boolean): StoredProfile => {
+  const migrated = migrateStoredProfile(record);
+  return {
+    ...migrated,
+    profile: { ...migrated.profile, id: asCopy ? generateId() : migrated.profile.id },
+  };
+};
+
+/**
+ * Deletes the profile and its conversation threads in one transaction, so a
+ * failure never leaves threads without an avatar.
+ */
+export const deleteProfile = async (id: string): Promise<void> => {
+  await withTransaction([STORES.PROFILES, STORES.THREADS], tx => {
+    tx.objectStore(STORES.PROFILES).delete(id);
+    const threads = tx.objectStore(STORES.THREADS);
+    const keys = threads.index('profileId').getAllKeys(id);
+    keys.onsuccess = () => keys.result.forEach(key => threads.delete(key));
+  });
+};
+
+export const duplicateProfile = async (id: string): Promise<StoredProfile> => {
+  const existing = await getProfile(id);
+  if (!existing) {
+    throw new Error(`Profile ${id} does not exist`);
+  }
+  return createProfile({
+    ...existing.profile,
+    id: generateId(),
+    name: `${existing.profile.name} (Copy)`,
+  });
+};
@@ -0,0 +1,116 @@
+// Resolves the configured implementation for each AI capability
+
+import { PROVIDER_CONFIG } from "../constants";
+import {
+  AvatarProfile,
+  ChatProvider,
+  EmbeddingProvider,
+  ProviderName,
+  RealtimeProvider,
+  SpeechOptions,
+  SpeechProvider,
+  TranscriptionProvider,
+} from "../types";
+import { elevenLabsSpeechProvider } from "./elevenLabsService";
+import {
+  geminiChatProvider,
+  geminiEmbeddingProvider,
+  geminiRealtimeProvider,
+  geminiSpeechProvider,
+  geminiTranscriptionProvider,
+} from "./geminiService";
+import {
+  mockChatProvider,
+  mockEmbeddingProvider,
+  mockRealtimeProvider,
+  mockSpeechProvider,
+  mockTranscriptionProvider,
+} from "./mockProvider";
+
+type Capability = keyof typeof PROVIDER_CONFIG;
+type ProviderSelection = Record<Capability, ProviderName>;
+
+const CHAT_PROVIDERS: Partial<Record<ProviderName, ChatProvider>> = {
+  gemini: geminiChatProvider,
+  mock: mockChatProvider,
+};
+
+const SPEECH_PROVIDERS: Partial<Record<ProviderName, SpeechProvider>> = {
+  gemini: geminiSpeechProvider,
+  elevenlabs: elevenLabsSpeechProvider,
+  mock: mockSpeechProvider,
+};
+
+const TRANSCRIPTION_PROVIDERS: Partial<Record<ProviderName, TranscriptionProvider>> = {
+  gemini: geminiTranscriptionProvider,
+  mock: mockTranscriptionProvider,
+};
+
+const EMBEDDING_PROVIDERS: Partial<Record<ProviderName, EmbeddingProvider>> = {
+  gemini: geminiEmbeddingProvider,
+  mock: mockEmbeddingProvider,
+};
+
+const REALTIME_PROVIDERS: Partial<Record<ProviderName, RealtimeProvider>> = {
+  gemini: geminiRealtimeProvider,
+  mock: mockRealtimeProvider,
+};
+
+const ALL_MOCK: ProviderSelection = {
+  chat: 'mock',
+  speech: 'mock',
+  clonedSpeech: 'mock',
+  transcription: 'mock',
+  embedding: 'mock',
+  realtime: 'mock',
+};
+
+let selection: ProviderSelection = process.env.AI_PROVIDER === 'mock'
+  ? { ...ALL_MOCK }
+  : { ...PROVIDER_CONFIG };
+
+/**
+ * Overrides the configured providers at runtime, e.g. to force the mock in tests.
+ * Pass 'mock' to switch every capability at once.
+ */
+export const configureProviders = (overrides: Partial<ProviderSelection> | 'mock') => {
+  selection = overrides === 'mock' ? { ...ALL_MOCK } : { ...selection, ...overrides };
+};
+
+const resolve = <T>(registry: Partial<Record<ProviderName, T>>, capability: Capability): T => {
+  const provider = registry[selection[capability]];
+  if (!provider) {
+    throw new Error(`No ${capability} provider named "${selection[capability]}"`);
+  }
+  return provider;
+};
+
+export const getChatProvider = (): ChatProvider => resolve(CHAT_PROVIDERS, 'chat');
+export const getTranscriptionProvider = (): TranscriptionProvider => resolve(TRANSCRIPTION_PROVIDERS, 'transcription');
+export const getEmbeddingProvider = (): EmbeddingProvider => resolve(EMBEDDING_PROVIDERS, 'embedding');
+export const getRealtimeProvider = (): RealtimeProvider => resolve(REALTIME_PROVIDERS, 'realtime');
+export const getSpeechProvider = (): SpeechProvider => resolve(SPEECH_PROVIDERS, 'speech');
+export const getClonedSpeechProvider = (): SpeechProvider => resolve(SPEECH_PROVIDERS, 'clonedSpeech');
+
+export interface SpeechVoice {
+  provider: SpeechProvider;
+  voiceId: string;
+  options?: SpeechOptions;
+}
+
+/**
+ * Voices to try for a profile, in order: the cloned voice (if any),
+ * then the generic prebuilt voice as a fallback.
+ */
+export const getSpeechVoices = (profile: AvatarProfile): SpeechVoice[] => {
+  const voices: SpeechVoice[] = [];
+  if (profile.elevenLabsVoiceId) {
+    voices.push({
+      provider: getClonedSpeechProvider(),
+      voiceId: profile.elevenLabsVoiceId,
+      options: { settings: profile.voiceSettings, modelId: profile.voiceModel },
+    });
+  }
+  voices.push({ provider: getSpeechProvider(), voiceId: profile.voiceName });
+  return voices;
+};
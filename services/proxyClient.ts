@@ -0,0 +1,69 @@
+// Browser side of the local API proxy (server/index.ts).
+// Vendor keys live on the server; the client only ever talks to /api.
+
+let apiBase = '/api';
+
+/**
+ * Points the client at a proxy on another origin, e.g. from Node scripts where
+ * there is no page origin to resolve '/api' against.
+ */
+export const configureApiBase = (url: string) => {
+  apiBase = url.replace(/\/$/, '');
+};
+
+/**
+ * Error for a failed proxy call. Carries the HTTP status so retry logic can
+ * tell rate limits (429) and outages (503) from other failures.
+ */
+export class ProxyError extends Error {
+  constructor(public status: number, message: string) {
+    super(message);
+    this.name = 'ProxyError';
+  }
+}
+
+const post = async (path: string, body: unknown): Promise<Response> => {
+  const isForm = body instanceof FormData;
+  const response = await fetch(`${apiBase}${path}`, {
+    method: 'POST',
+    // Content-Type is set automatically by fetch for FormData
+    headers: isForm ? undefined : { 'Content-Type': 'application/json' },
+    body: isForm ? body : JSON.stringify(body),
+  });
+
+  if (!response.ok) {
+    let message = `${response.status} ${response.statusText}`;
+    try {
+      message = (await response.json()).error || message;
+    } catch (e) {}
+    throw new ProxyError(response.status, message);
+  }
+  return response;
+};
+
+export const postJson = async <T>(path: string, body: unknown): Promise<T> => {
+  return (await post(path, body)).json();
+};
+
+/**
+ * Reads a newline-delimited JSON response, calling onLine for each object.
+ */
+export const postForStream = async <T>(path: string, body: unknown, onLine: (line: T) => void): Promise<void> => {
+  const response = await post(path, body);
+  if (!response.body) throw new ProxyError(502, 'Empty stream');
+
+  const reader = response.body.getReader();
+  const decoder = new TextDecoder();
+  let buffer = '';
+
+  while (true) {
+    const { done, value } = await reader.read();
+    buffer += decoder.decode(value, { stream: !done });
+
+    const lines = buffer.split('\n');
+    buffer = done ? '' : lines.pop() || '';
+    lines.filter(line => line.trim()).forEach(line => onLine(JSON.parse(line)));
+
+    if (done) break;
+  }
+};
@@ -0,0 +1,94 @@
+// Local cache of synthesized speech backed by IndexedDB, keyed by provider,
+// voice, voice settings and normalized text. Replays and repeated phrases
+// play without another vendor call.
+
+import { SPEECH_CACHE_MAX_BYTES, SPEECH_CACHE_MAX_ENTRIES } from "../constants";
+import { SpeechAudio, SpeechOptions, SpeechProvider } from "../types";
+import { STORES, withStore } from "../utils/dbUtils";
+import { hashText } from "../utils/vectorUtils";
+
+interface CachedSpeech extends SpeechAudio {
+  key: string;
+  text: string; // Normalized; guards against hash collisions
+}
+
+interface CacheEntry {
+  key: string;
+  size: number;
+  lastUsedAt: number;
+}
+
+const normalizeText = (text: string): string => text.normalize('NFC').replace(/\s+/g, ' ').trim();
+
+const getOptionsKey = ({ settings, modelId }: SpeechOptions = {}): string =>
+  [modelId, settings?.stability, settings?.similarityBoost, settings?.style, settings?.useSpeakerBoost].join('|');
+
+const getCacheKey = (providerName: string, voiceId: string, text: string, options?: SpeechOptions): string =>
+  `${providerName}:${voiceId}:${hashText(getOptionsKey(options))}:${hashText(text)}`;
+
+const touchEntry = (entry: CacheEntry): Promise<IDBValidKey> =>
+  withStore(STORES.SPEECH_ENTRIES, 'readwrite', store => store.put(entry));
+
+const readCache = async (key: string, text: string): Promise<SpeechAudio | null> => {
+  try {
+    const record: CachedSpeech | undefined = await withStore(STORES.SPEECH_AUDIO, 'readonly', store => store.get(key));
+    if (!record || record.text !== text) return null;
+
+    touchEntry({ key, size: record.data.byteLength, lastUsedAt: Date.now() })
+      .catch(e => console.warn("Speech cache update failed", e));
+    const { data, format, sampleRate, alignment } = record;
+    return { data, format, sampleRate, alignment };
+  } catch (e) {
+    console.warn("Speech cache read failed", e);
+    return null;
+  }
+};
+
+// Drops the least recently played clips until the cache fits its limits
+const evict = async (): Promise<void> => {
+  const entries: CacheEntry[] = await withStore(STORES.SPEECH_ENTRIES, 'readonly', store => store.getAll());
+  entries.sort((a, b) => b.lastUsedAt - a.lastUsedAt);
+
+  let totalBytes = 0;
+  const stale = entries.filter((entry, index) => {
+    totalBytes += entry.size;
+    return index >= SPEECH_CACHE_MAX_ENTRIES || totalBytes > SPEECH_CACHE_MAX_BYTES;
+  });
+
+  await Promise.all(stale.map(async ({ key }) => {
+    await withStore(STORES.SPEECH_AUDIO, 'readwrite', store => store.delete(key));
+    await withStore(STORES.SPEECH_ENTRIES, 'readwrite', store => store.delete(key));
+  }));
+};
+
+const writeCache = async (record: CachedSpeech): Promise<void> => {
+  try {
+    // Entry first, so audio is never stored without eviction knowing about it
+    await touchEntry({ key: record.key, size: record.data.byteLength, lastUsedAt: Date.now() });
+    await withStore(STORES.SPEECH_AUDIO, 'readwrite', store => store.put(record));
+    await evict();
+  } catch (e) {
+    console.warn("Speech cache write failed", e);
+  }
+};
+
+/**
+ * Synthesizes text once per voice and settings and serves repeats from the
+ * local cache. The cache is written in the background so playback is not held up.
+ */
+export const synthesizeCached = async (
+  provider: SpeechProvider,
+  text: string,
+  voiceId: string,
+  options?: SpeechOptions
+): Promise<SpeechAudio> => {
+  const normalized = normalizeText(text);
+  const key = getCacheKey(provider.name, voiceId, normalized, options);
+  const cached = await readCache(key, normalized);
+  if (cached) return cached;
+
+  const audio = await provider.synthesize(text, voiceId, options);
+  // Copy now: decoding for playback detaches the original buffer
+  writeCache({ ...audio, data: audio.data.slice(0), key, text: normalized });
+  return audio;
+};
@@ -0,0 +1,182 @@
+// Conversation thread store backed by IndexedDB.
+// Both AvatarChat and LiveSession write here so text and voice share one history.
+
+import { ChatMessage, ConversationSummary, ConversationThread, ThreadSearchResult } from "../types";
+import { STORES, withStore, withTransaction } from "../utils/dbUtils";
+
+const SNIPPET_RADIUS = 60;
+
+const generateId = (): string => {
+  return `${Date.now().toString()}-${Math.random().toString(36).slice(2, 8)}`;
+};
+
+export const createMessageId = generateId;
+
+/**
+ * True when both are the same message. Older messages have no id, so those
+ * are matched on role, timestamp and text.
+ */
+export const isSameMessage = (a: ChatMessage, b: ChatMessage): boolean =>
+  a.id || b.id
+    ? a.id === b.id
+    : a.role === b.role && a.timestamp === b.timestamp && a.text === b.text;
+
+/**
+ * Reads a thread and saves `update`'s result in one transaction, so concurrent
+ * writers (chat, a live call, a summary) never overwrite each other's changes.
+ */
+const updateThread = async (
+  threadId: string,
+  update: (thread: ConversationThread) => ConversationThread
+): Promise<ConversationThread> => {
+  let saved: ConversationThread | undefined;
+  let failure: unknown;
+  try {
+    await withTransaction([STORES.THREADS], tx => {
+      const store = tx.objectStore(STORES.THREADS);
+      const request = store.get(threadId);
+      request.onsuccess = () => {
+        try {
+          if (!request.result) throw new Error(`Thread ${threadId} does not exist`);
+          saved = { ...update(request.result), updatedAt: Date.now() };
+          store.put(saved);
+        } catch (e) {
+          failure = e;
+          tx.abort();
+        }
+      };
+    });
+  } catch (e) {
+    throw failure || e;
+  }
+  return saved!;
+};
+
+export const getThreadTitle = (thread: ConversationThread): string => {
+  return thread.title || `Conversation on ${new Date(thread.createdAt).toLocaleDateString()}`;
+};
+
+export const listThreads = async (profileId: string): Promise<ConversationThread[]> => {
+  const threads = await withStore(STORES.THREADS, 'readonly', store =>
+    store.index('profileId').getAll(profileId)
+  );
+  return threads.sort((a, b) => b.updatedAt - a.updatedAt);
+};
+
+export const getThread = async (id: string): Promise<ConversationThread | null> => {
+  const thread = await withStore(STORES.THREADS, 'readonly', store => store.get(id));
+  return thread || null;
+};
+
+export const saveThread = async (thread: ConversationThread): Promise<ConversationThread> => {
+  const updated = { ...thread, updatedAt: Date.now() };
+  await withStore(STORES.THREADS, 'readwrite', store => store.put(updated));
+  return updated;
+};
+
+export const createThread = async (
+  profileId: string,
+  messages: ChatMessage[] = [],
+  title: string = ''
+): Promise<ConversationThread> => {
+  const now = Date.now();
+  return saveThread({
+    id: generateId(),
+    profileId,
+    title,
+    messages,
+    createdAt: now,
+    updatedAt: now,
+  });
+};
+
+/**
+ * Threads from an imported bundle, ready to store under profileId. Each gets a
+ * fresh id so imports never overwrite conversations already on this device.
+ */
+export const prepareImportedThreads = (profileId: string, threads: ConversationThread[]): ConversationThread[] =>
+  threads.map(thread => ({ ...thread, id: generateId(), profileId }));
+
+/**
+ * The thread a returning user should land in: the most recently updated one.
+ */
+export const getLatestThread = async (profileId: string): Promise<ConversationThread | null> => {
+  const threads = await listThreads(profileId);
+  return threads[0] || null;
+};
+
+/**
+ * Appends to a thread. Messages without an id get one, so they can be updated later.
+ */
+export const appendMessages = (threadId: string, messages: ChatMessage[]): Promise<ConversationThread> =>
+  updateThread(threadId, thread => {
+    // Name untitled threads after the first thing the user said
+    const firstUserMessage = messages.find(m => m.role === 'user');
+    const title = thread.title || (firstUserMessage ? firstUserMessage.text.slice(0, 48) : '');
+    const added = messages.map(message => message.id ? message : { ...message, id: generateId() });
+    return { ...thread, title, messages: [...thread.messages, ...added] };
+  });
+
+export const updateMessage = (
+  threadId: string,
+  message: ChatMessage,
+  patch: Partial<ChatMessage>
+): Promise<ConversationThread> =>
+  updateThread(threadId, thread => {
+    const index = thread.messages.findIndex(candidate => isSameMessage(candidate, message));
+    if (index < 0) {
+      throw new Error(`Message is not in thread ${threadId}`);
+    }
+    const messages = [...thread.messages];
+    messages[index] = { ...messages[index], ...patch };
+    return { ...thread, messages };
+  });
+
+export const updateThreadSummary = (threadId: string, summary: ConversationSummary): Promise<ConversationThread> =>
+  updateThread(threadId, thread => ({ ...thread, summary }));
+
+export const renameThread = (threadId: string, title: string): Promise<ConversationThread> =>
+  updateThread(threadId, thread => ({ ...thread, title: title.trim() }));
+
+export const deleteThread = async (threadId: string): Promise<void> => {
+  await withStore(STORES.THREADS, 'readwrite', store => store.delete(threadId));
+};
+
+const buildSnippet = (text: string, matchIndex: number, matchLength: number): string => {
+  const start = Math.max(0, matchIndex - SNIPPET_RADIUS);
+  const end = Math.min(text.length, matchIndex + matchLength + SNIPPET_RADIUS);
+  return `${start > 0 ? '...' : ''}${text.slice(start, end)}${end < text.length ? '...' : ''}`;
+};
+
+/**
+ * Case-insensitive full-text search across every thread of an avatar.
+ * A message matches when it contains all whitespace-separated terms.
+ */
+export const searchThreads = async (profileId: string, query: string): Promise<ThreadSearchResult[]> => {
+  const terms = query.toLowerCase().split(/\s+/).filter(Boolean);
+  if (terms.length === 0) return [];
+
+  const threads = await listThreads(profileId);
+  const results: ThreadSearchResult[] = [];
+
+  threads.forEach(thread => {
+    const titleMatches = terms.every(term => getThreadTitle(thread).toLowerCase().includes(term));
+
+    thread.messages.forEach((message, messageIndex) => {
+      const haystack = message.text.toLowerCase();
+      if (!terms.every(term => haystack.includes(term))) return;
+
+      results.push({
+        thread,
+        messageIndex,
+        snippet: buildSnippet(message.text, haystack.indexOf(terms[0]), terms[0].length),
+      });
+    });
+
+    if (titleMatches && !results.some(r => r.thread.id === thread.id)) {
+      results.push({ thread, messageIndex: 0, snippet: getThreadTitle(thread) });
+    }
+  });
+
+  return results;
+};
@@ -4,20 +4,383 @@ export interface AvatarProfile {
   name: string;
   personality: string; // Traits like "Warmth: High", "Humor: Low"
   styleSamples: string; // The source text/writings to mimic
-  memories: string; // Specific biography and events to remember
+  memories: string; // Specific biography and events to remember, serialized from memoryEntries
   imageBase64: string; 
   voiceName: string; 
   elevenLabsVoiceId?: string; 
+  memoryEntries?: MemoryEntry[]; // Discrete memories; derived from `memories` when absent
+  contextSettings?: ContextSettings;
+  voiceSample?: MediaAsset; // Original recording the cloned voice was made from
+  faceLayout?: FaceLayout; // Detected when the portrait was uploaded
+  photos?: PortraitPhoto[]; // Era-specific photos shown when their time of life comes up
+  voiceSettings?: VoiceSettings; // Tuning for the cloned voice; defaults when absent
+  voiceModel?: string; // ElevenLabs model id for the cloned voice
+  liveSettings?: LiveSessionSettings;
+}
+
+// How microphone audio reaches a live call:
+// open streams everything, handsFree only detected speech, pushToTalk only while held
+export type LiveInputMode = 'open' | 'handsFree' | 'pushToTalk';
+
+export interface LiveSessionSettings {
+  inputMode: LiveInputMode;
+}
+
+// Tuning for a cloned voice, mirroring ElevenLabs voice_settings
+export interface VoiceSettings {
+  stability: number; // 0-1, lower is more expressive
+  similarityBoost: number; // 0-1, how closely to follow the original recording
+  style: number; // 0-1, style exaggeration
+  useSpeakerBoost: boolean;
+}
+
+// An additional photo from one period of the person's life
+export interface PortraitPhoto {
+  id: string;
+  base64: string;
+  faceLayout?: FaceLayout;
+  era: string; // Year or era, e.g. "1965", "1960s", "Childhood"
+  caption?: string;
+  memoryIds?: string[]; // Memory entries this photo belongs to
+}
+
+// Where the animated portrait places the eyes and mouth, as 0-1 fractions of
+// the square portrait (x from the left, y from the top)
+export interface FaceLayout {
+  leftEye: { x: number; y: number };
+  rightEye: { x: number; y: number };
+  mouth: { x: number; y: number };
+  faceWidth: number;
+}
+
+// Binary file kept inline as base64, e.g. a voice sample or a bundled portrait
+export interface MediaAsset {
+  base64: string;
+  mimeType: string;
+}
+
+// How much raw chat history is sent before older turns are summarized
+export interface ContextSettings {
+  historyTokenBudget: number;
+  recentWindow: number; // Messages always sent verbatim
+}
+
+// One retrievable memory, either chunked from free text or written in the memory editor
+export interface MemoryEntry {
+  id: string;
+  text: string;
+  title?: string;
+  date?: string; // Approximate year or era, e.g. "1965", "1960s", "Childhood"
+  people?: string[];
+  place?: string;
+  tags?: string[];
+  tone?: MemoryTone;
+  source?: string; // Who contributed the memory
+}
+
+export enum MemoryTone {
+  Joyful = 'Joyful',
+  Tender = 'Tender',
+  Proud = 'Proud',
+  Funny = 'Funny',
+  Bittersweet = 'Bittersweet',
+  Sad = 'Sad',
+  Neutral = 'Neutral',
+}
+
+export interface RetrievedMemory {
+  entry: MemoryEntry;
+  score: number; // Cosine similarity to the user's message
+}
+
+// Wrapper persisted in IndexedDB. schemaVersion lets older records be migrated
+// when AvatarProfile changes shape.
+export interface StoredProfile {
+  schemaVersion: number;
+  profile: AvatarProfile;
+  createdAt: number;
+  updatedAt: number;
+}
+
+// Portable export of one avatar. The manifest describes the profile; binary
+// files travel in `assets` so the profile itself stays small and readable.
+export interface ProfileBundle {
+  format: string;
+  bundleVersion: number;
+  exportedAt: number;
+  manifest: BundleManifest;
+  assets: {
+    portrait: MediaAsset;
+    voiceSample?: MediaAsset;
+    photos?: Record<string, MediaAsset>; // Keyed by PortraitPhoto id
+  };
+  threads: ConversationThread[];
+}
+
+export interface BundleManifest {
+  schemaVersion: number;
+  createdAt: number;
+  updatedAt: number;
+  profile: Omit<AvatarProfile, 'imageBase64' | 'voiceSample' | 'photos'> & {
+    photos?: Omit<PortraitPhoto, 'base64'>[];
+  };
+}
+
+export type AttributionSource = 'memory' | 'style' | 'personality';
+
+// A sentence from the profile that a reply resembles
+export interface AttributedPassage {
+  source: AttributionSource;
+  text: string;
+  similarity: number; // Cosine similarity to the reply
+  context?: string; // The memory entry or paragraph the passage was taken from
+  label?: string; // e.g. the memory's title
+}
+
+// grounded: closer to this avatar's sources than baseline text plausibly gets;
+// topical: above the baseline on average, but a generic reply could match as well
+export type GroundingLevel = 'grounded' | 'topical' | 'unrelated';
+
+export interface SourceCalibration {
+  similarity: number; // Best passage of this avatar's source
+  baseline: number; // Mean similarity of the reply to baseline text
+  confidence: number; // 0-1, how unlikely baseline text would match as well
+  level: GroundingLevel;
+}
+
+export type StyleFeatureKey = 'sentenceLength' | 'vocabulary' | 'functionWords' | 'punctuation' | 'ngrams' | 'signaturePhrases';
+
+// One stylometric feature of the style samples next to the same feature of a reply
+export interface StyleFeatureComparison {
+  key: StyleFeatureKey;
+  label: string;
+  sample: string; // Human-readable value, e.g. "14.2 ± 5.1 words"
+  reply: string;
+  similarity: number; // 0-1
+}
+
+export interface StylometryReport {
+  score: number; // 0-100, weighted over the features
+  features: StyleFeatureComparison[];
+  signaturePhrasesUsed: string[];
 }
 
 export interface ExplanationAnalysis {
+  // 0-100, similarity above the baseline (raw rescaled similarity on older explanations)
   personalityScore: number;
   memoriesScore: number;
   styleScore: number;
   reasoning: string;
+  passages?: AttributedPassage[]; // Most similar first; absent on older explanations
+  calibration?: Record<AttributionSource, SourceCalibration>;
+  stylometry?: StylometryReport; // Absent when there are too few style samples
+}
+
+export interface ChatMessage {
+  id?: string; // Missing on messages saved before ids were added
+  role: string; // 'user' | 'model' | 'error'
+  text: string;
+  timestamp: number;
+  explanation?: ExplanationAnalysis;
+  retrievedMemories?: RetrievedMemory[];
+  interrupted?: boolean; // Live call reply the user talked over
+}
+
+// A named conversation with one avatar. Chat and live calls share the same store.
+export interface ConversationThread {
+  id: string;
+  profileId: string;
+  title: string;
+  messages: ChatMessage[];
+  summary?: ConversationSummary;
+  createdAt: number;
+  updatedAt: number;
+}
+
+// Rolling "conversation so far" covering messages[0..coveredCount)
+export interface ConversationSummary {
+  text: string;
+  coveredCount: number;
+  updatedAt: number;
+}
+
+export interface ThreadSearchResult {
+  thread: ConversationThread;
+  messageIndex: number;
+  snippet: string;
+}
+
+// --- PROVIDERS ---
+// Vendor-neutral interfaces; Gemini, ElevenLabs and the offline mock implement them.
+
+export type ProviderName = 'gemini' | 'elevenlabs' | 'mock';
+
+export interface ChatTurn {
+  role: 'user' | 'model';
+  text: string;
+}
+
+export interface ChatRequest {
+  contents: ChatTurn[] | string;
+  systemInstruction?: string;
+  temperature?: number;
+  maxOutputTokens?: number;
+  // Plain JSON Schema; when set the reply is a JSON document matching it
+  jsonSchema?: Record<string, unknown>;
+  // Memories already rendered into systemInstruction, one per item. Real models
+  // read the prompt; the offline mock answers from these instead.
+  sources?: string[];
+  // Streams chunks as they arrive; the full text is still returned
+  onChunk?: (delta: string, textSoFar: string) => void;
+}
+
+export interface ChatResult {
+  text: string;
+  finishReason?: string;
+}
+
+export interface ChatProvider {
+  name: ProviderName;
+  generate: (request: ChatRequest) => Promise<ChatResult>;
+}
+
+// Raw PCM16 (Gemini) or an encoded container such as MP3 (ElevenLabs)
+export interface SpeechAudio {
+  data: ArrayBuffer;
+  format: 'pcm16' | 'encoded';
+  sampleRate?: number;
+  alignment?: SpeechAlignment; // Only from providers that return timings
+}
+
+// Per-character timing of synthesized speech, in seconds from the start of the clip
+export interface SpeechAlignment {
+  characters: string[];
+  startTimes: number[];
+  endTimes: number[];
+}
+
+// Per-voice options; providers ignore what they do not support
+export interface SpeechOptions {
+  settings?: VoiceSettings;
+  modelId?: string;
+}
+
+// A cloned voice stored in the vendor account
+export interface ClonedVoice {
+  voiceId: string;
+  name: string;
+  createdAt?: number;
+  previewUrl?: string;
+}
+
+export interface SpeechProvider {
+  name: ProviderName;
+  synthesize: (text: string, voiceId: string, options?: SpeechOptions) => Promise<SpeechAudio>;
+  cloneVoice?: (name: string, sample: Blob) => Promise<string>;
+  listVoices?: () => Promise<ClonedVoice[]>;
+  deleteVoice?: (voiceId: string) => Promise<void>;
+}
+
+export interface TranscriptionProvider {
+  name: ProviderName;
+  transcribe: (audioBase64: string, mimeType: string) => Promise<string>;
+}
+
+export interface EmbeddingProvider {
+  name: ProviderName;
+  model: string;
+  embed: (text: string) => Promise<number[]>;
+  // Many texts in few requests, same order as the input
+  embedBatch?: (texts: string[]) => Promise<number[][]>;
+}
+
+// Normalized server event of a realtime voice session
+export interface RealtimeEvent {
+  audioBase64?: string;
+  inputTranscript?: string;
+  outputTranscript?: string;
+  turnComplete?: boolean;
+  interrupted?: boolean;
+  resumptionHandle?: string; // Latest point the session can be resumed from
+  goAway?: boolean; // The server will drop the connection shortly
+}
+
+export interface RealtimeConnectOptions {
+  systemInstruction: string;
+  voiceName: string;
+  resumptionHandle?: string; // Continues an earlier session where the provider supports it
+  onOpen: () => void;
+  onEvent: (event: RealtimeEvent) => void;
+  onClose: (reason?: string) => void;
+  onError: (error: Error) => void;
+}
+
+export interface RealtimeSession {
+  sendAudio: (blob: { data: string; mimeType: string }) => void;
+  // Tells the server the mic paused, so it closes the user's turn without waiting for silence
+  endAudioStream: () => void;
+  close: () => void;
+}
+
+// connecting -> live -> reconnecting -> live ... -> ended, or failed once retries run out
+export type LiveSessionStatus = 'connecting' | 'live' | 'reconnecting' | 'ended' | 'failed';
+
+export interface RealtimeProvider {
+  name: ProviderName;
+  connect: (options: RealtimeConnectOptions) => Promise<RealtimeSession>;
+}
+
+// --- EVALUATION ---
+
+// A probe question for the persona evaluation (eval/run.ts). Each fact or claim
+// is a phrase, or a list of alternative phrasings any one of which counts.
+export interface EvalProbe {
+  id: string;
+  question: string;
+  expectedFacts?: (string | string[])[];
+  forbiddenClaims?: (string | string[])[];
+  history?: { role: string; text: string }[]; // Earlier turns, oldest first
+}
+
+export interface EvalSuite {
+  name: string;
+  profile: AvatarProfile;
+  probes: EvalProbe[];
+}
+
+export type EvalCheckKey = 'facts' | 'forbiddenClaims' | 'character' | 'format' | 'style';
+
+export interface EvalCheck {
+  key: EvalCheckKey;
+  score: number; // 0-1
+  passed: boolean;
+  details: string[]; // What was missing or broken, empty when clean
+}
+
+export interface EvalProbeResult {
+  probe: EvalProbe;
+  reply: string;
+  checks: EvalCheck[];
+  score: number; // 0-100, weighted over the checks
+  passed: boolean;
+  durationMs: number;
+  error?: string;
+}
+
+export interface EvalReport {
+  suite: string;
+  avatar: string;
+  provider: string; // Chat provider and model, e.g. "gemini (gemini-2.5-flash)"
+  startedAt: string; // ISO timestamp
+  durationMs: number;
+  score: number; // Mean probe score, 0-100
+  passRate: number; // 0-1
+  checkScores: Partial<Record<EvalCheckKey, number>>; // Mean per check, 0-100
+  results: EvalProbeResult[];
 }
 
 export enum AppView {
+  LIBRARY = 'LIBRARY',
   CREATE = 'CREATE',
   CHAT = 'CHAT',
   LIVE = 'LIVE'
@@ -1,4 +1,5 @@
 import { AUDIO_SAMPLE_RATE_INPUT, AUDIO_SAMPLE_RATE_OUTPUT } from '../constants';
+import { SpeechAudio } from '../types';
 
 export const blobToBase64 = (blob: Blob): Promise<string> => {
   return new Promise((resolve, reject) => {
@@ -55,15 +56,20 @@ export async function decodeAudioData(
   return buffer;
 }
 
-export function createPcmBlob(data: Float32Array): { data: string; mimeType: string } {
-  const l = data.length;
-  const int16 = new Int16Array(l);
-  for (let i = 0; i < l; i++) {
-    int16[i] = data[i] * 32768;
+// Decodes TTS output from any speech provider: raw PCM goes through
+// decodeAudioData above, encoded formats (MP3) through the browser decoder
+export async function decodeSpeechAudio(audio: SpeechAudio, ctx: AudioContext): Promise<AudioBuffer> {
+  if (audio.format === 'pcm16') {
+    return decodeAudioData(new Uint8Array(audio.data), ctx, audio.sampleRate);
   }
+  return ctx.decodeAudioData(audio.data);
+}
+
+// Wraps PCM16 frames from utils/micCapture.ts for a realtime session
+export function createPcmBlob(pcm: Int16Array, sampleRate: number = AUDIO_SAMPLE_RATE_INPUT): { data: string; mimeType: string } {
   return {
-    data: bytesToBase64(new Uint8Array(int16.buffer)),
-    mimeType: `audio/pcm;rate=${AUDIO_SAMPLE_RATE_INPUT}`,
+    data: bytesToBase64(new Uint8Array(pcm.buffer, pcm.byteOffset, pcm.byteLength)),
+    mimeType: `audio/pcm;rate=${sampleRate}`,
   };
 }
 
@@ -77,4 +83,206 @@ export const playAudioBuffer = (
   source.connect(ctx.destination);
   source.start(startTime);
   return source;
-};
\ No newline at end of file
+};
+// --- VOICE SAMPLE EDITING ---
+
+/**
+ * Reads the sample rate from a WAV header. Other containers are resampled by
+ * the browser when decoded, so their original rate cannot be recovered.
+ */
+export function readWavSampleRate(data: ArrayBuffer): number | undefined {
+  if (data.byteLength < 28) return undefined;
+  const view = new DataView(data);
+  const tag = (offset: number) => String.fromCharCode(...new Uint8Array(data, offset, 4));
+  if (tag(0) !== 'RIFF' || tag(8) !== 'WAVE') return undefined;
+  return view.getUint32(24, true);
+}
+
+// Decodes any browser-supported recording to a mono buffer at the context's rate
+export async function decodeToMono(data: ArrayBuffer, ctx: BaseAudioContext): Promise<AudioBuffer> {
+  const decoded = await ctx.decodeAudioData(data);
+  const mono = ctx.createBuffer(1, decoded.length, decoded.sampleRate);
+  const output = mono.getChannelData(0);
+  for (let channel = 0; channel < decoded.numberOfChannels; channel++) {
+    const input = decoded.getChannelData(channel);
+    for (let i = 0; i < input.length; i++) {
+      output[i] += input[i] / decoded.numberOfChannels;
+    }
+  }
+  return mono;
+}
+
+// Copies [startSeconds, endSeconds) into a new mono buffer
+export function sliceAudioBuffer(buffer: AudioBuffer, startSeconds: number, endSeconds: number, ctx: BaseAudioContext): AudioBuffer {
+  const start = Math.max(0, Math.floor(startSeconds * buffer.sampleRate));
+  const end = Math.min(buffer.length, Math.ceil(endSeconds * buffer.sampleRate));
+  const sliced = ctx.createBuffer(1, Math.max(1, end - start), buffer.sampleRate);
+  sliced.copyToChannel(buffer.getChannelData(0).slice(start, end), 0);
+  return sliced;
+}
+
+// Joins mono buffers end to end; all buffers must share the context's sample rate
+export function concatAudioBuffers(buffers: AudioBuffer[], ctx: BaseAudioContext): AudioBuffer {
+  const length = buffers.reduce((sum, b) => sum + b.length, 0);
+  const joined = ctx.createBuffer(1, Math.max(1, length), ctx.sampleRate);
+  const output = joined.getChannelData(0);
+  let offset = 0;
+  buffers.forEach(b => {
+    output.set(b.getChannelData(0), offset);
+    offset += b.length;
+  });
+  return joined;
+}
+
+// Mono 16-bit PCM WAV, the most widely accepted upload format for voice cloning
+export function encodeWav(buffer: AudioBuffer): Blob {
+  const samples = buffer.getChannelData(0);
+  const view = new DataView(new ArrayBuffer(44 + samples.length * 2));
+  const writeTag = (offset: number, tag: string) => {
+    for (let i = 0; i < tag.length; i++) view.setUint8(offset + i, tag.charCodeAt(i));
+  };
+
+  writeTag(0, 'RIFF');
+  view.setUint32(4, 36 + samples.length * 2, true);
+  writeTag(8, 'WAVE');
+  writeTag(12, 'fmt ');
+  view.setUint32(16, 16, true);
+  view.setUint16(20, 1, true); // PCM
+  view.setUint16(22, 1, true); // Mono
+  view.setUint32(24, buffer.sampleRate, true);
+  view.setUint32(28, buffer.sampleRate * 2, true);
+  view.setUint16(32, 2, true);
+  view.setUint16(34, 16, true);
+  writeTag(36, 'data');
+  view.setUint32(40, samples.length * 2, true);
+
+  for (let i = 0; i < samples.length; i++) {
+    const s = Math.max(-1, Math.min(1, samples[i]));
+    view.setInt16(44 + i * 2, s < 0 ? s * 0x8000 : s * 0x7fff, true);
+  }
+  return new Blob([view], { type: 'audio/wav' });
+}
+
+// Peak amplitude per bin, for drawing a waveform
+export function getWaveformPeaks(buffer: AudioBuffer, bins: number): number[] {
+  const data = buffer.getChannelData(0);
+  const binSize = Math.max(1, Math.floor(data.length / bins));
+  const peaks: number[] = [];
+  for (let bin = 0; bin < bins; bin++) {
+    let peak = 0;
+    const end = Math.min(data.length, (bin + 1) * binSize);
+    for (let i = bin * binSize; i < end; i++) {
+      const value = Math.abs(data[i]);
+      if (value > peak) peak = value;
+    }
+    peaks.push(peak);
+  }
+  return peaks;
+}
+
+// --- VOICE SAMPLE ANALYSIS ---
+
+export interface VoiceQualityCheck {
+  label: string;
+  value: string;
+  status: 'good' | 'warn' | 'bad';
+  advice?: string;
+}
+
+export interface VoiceQualityReport {
+  durationSeconds: number;
+  clippingRatio: number; // Share of samples at full scale
+  silenceRatio: number; // Share of 50 ms frames below the silence threshold
+  noiseFloorDb: number; // Level of the quietest frames, dBFS
+  peakDb: number;
+  sampleRate?: number; // Of the original recording; undefined when it cannot be known
+  checks: VoiceQualityCheck[];
+  verdict: 'good' | 'fair' | 'poor';
+}
+
+const FRAME_SECONDS = 0.05;
+const CLIP_LEVEL = 0.99;
+const SILENCE_DB = -50;
+
+const toDb = (value: number) => 20 * Math.log10(Math.max(value, 1e-6));
+
+/**
+ * Measures whether recorded material is likely to give a good voice clone.
+ * `sourceSampleRate` is the rate of the original recording. Without it the
+ * sample rate check is left out: the buffer's own rate is only the decode rate.
+ */
+export function analyzeVoiceQuality(buffer: AudioBuffer, sourceSampleRate?: number): VoiceQualityReport {
+  const data = buffer.getChannelData(0);
+  const frameSize = Math.max(1, Math.round(buffer.sampleRate * FRAME_SECONDS));
+
+  let clipped = 0;
+  let peak = 0;
+  const frameLevels: number[] = [];
+
+  for (let start = 0; start < data.length; start += frameSize) {
+    const end = Math.min(data.length, start + frameSize);
+    let sum = 0;
+    for (let i = start; i < end; i++) {
+      const value = Math.abs(data[i]);
+      if (value >= CLIP_LEVEL) clipped++;
+      if (value > peak) peak = value;
+      sum += data[i] * data[i];
+    }
+    frameLevels.push(toDb(Math.sqrt(sum / (end - start))));
+  }
+
+  const sortedLevels = [...frameLevels].sort((a, b) => a - b);
+  const durationSeconds = buffer.duration;
+  const clippingRatio = clipped / Math.max(1, data.length);
+  const silenceRatio = frameLevels.filter(level => level < SILENCE_DB).length / Math.max(1, frameLevels.length);
+  // The quietest 10% of frames are pauses between words: their level is the background noise
+  const noiseFloorDb = sortedLevels[Math.floor(sortedLevels.length * 0.1)] ?? -120;
+  const peakDb = toDb(peak);
+
+  const checks: VoiceQualityCheck[] = [
+    {
+      label: 'Duration',
+      value: `${Math.round(durationSeconds)} s`,
+      status: durationSeconds >= 60 ? 'good' : durationSeconds >= 20 ? 'warn' : 'bad',
+      advice: durationSeconds < 60 ? 'Aim for 1-2 minutes of speech.' : undefined,
+    },
+    {
+      label: 'Clipping',
+      value: `${(clippingRatio * 100).toFixed(2)}%`,
+      status: clippingRatio < 0.001 ? 'good' : clippingRatio < 0.01 ? 'warn' : 'bad',
+      advice: clippingRatio >= 0.001 ? 'The recording distorts. Move further from the microphone or lower the input gain.' : undefined,
+    },
+    {
+      label: 'Silence',
+      value: `${Math.round(silenceRatio * 100)}%`,
+      status: silenceRatio < 0.3 ? 'good' : silenceRatio < 0.5 ? 'warn' : 'bad',
+      advice: silenceRatio >= 0.3 ? 'Trim long pauses so most of the sample is speech.' : undefined,
+    },
+    {
+      label: 'Background noise',
+      value: `${Math.round(noiseFloorDb)} dB`,
+      status: noiseFloorDb < -55 ? 'good' : noiseFloorDb < -40 ? 'warn' : 'bad',
+      advice: noiseFloorDb >= -55 ? 'Record in a quiet room, away from fans, traffic and music.' : undefined,
+    },
+    {
+      label: 'Loudness',
+      value: `${Math.round(peakDb)} dB peak`,
+      status: peakDb > -12 ? 'good' : peakDb > -24 ? 'warn' : 'bad',
+      advice: peakDb <= -12 ? 'The voice is quiet. Speak closer to the microphone.' : undefined,
+    },
+  ];
+  if (sourceSampleRate !== undefined) {
+    checks.push({
+      label: 'Sample rate',
+      value: `${(sourceSampleRate / 1000).toFixed(1)} kHz`,
+      status: sourceSampleRate >= 22050 ? 'good' : sourceSampleRate >= 16000 ? 'warn' : 'bad',
+      advice: sourceSampleRate < 22050 ? 'Phone-quality audio. Use a recording of at least 22 kHz if you have one.' : undefined,
+    });
+  }
+
+  const verdict = checks.some(c => c.status === 'bad')
+    ? 'poor'
+    : checks.some(c => c.status === 'warn') ? 'fair' : 'good';
+
+  return { durationSeconds, clippingRatio, silenceRatio, noiseFloorDb, peakDb, sampleRate: sourceSampleRate, checks, verdict };
+}
@@ -0,0 +1,53 @@
+// Calibration of explanation scores. Raw cosine similarity between any two
+// sentences in the same language is rarely low, so a reply is compared with
+// baseline text too: how similar would it be to sources that are not this avatar's?
+
+import { CALIBRATION } from "../constants";
+import { SourceCalibration } from "../types";
+
+// Standard normal CDF (Abramowitz and Stegun 7.1.26, error below 1.5e-7)
+const normalCdf = (z: number): number => {
+  const x = Math.abs(z) / Math.SQRT2;
+  const t = 1 / (1 + 0.3275911 * x);
+  const erf = 1 - t * (0.254829592 + t * (-0.284496736 + t * (1.421413741 + t * (-1.453152027 + t * 1.061405429)))) * Math.exp(-x * x);
+  return z >= 0 ? (1 + erf) / 2 : (1 - erf) / 2;
+};
+
+/**
+ * Calibrates the best similarity among `passageCount` of the avatar's passages
+ * against the reply's similarities to baseline passages.
+ *
+ * The baseline similarities are modelled as a normal distribution. Confidence
+ * is the chance that the best of `passageCount` baseline passages would still
+ * match worse. Taking the best of many passages inflates similarity, and this
+ * accounts for it: a long profile has to beat the baseline by more.
+ */
+export const calibrateSimilarity = (
+  similarity: number,
+  passageCount: number,
+  baselineSimilarities: number[]
+): SourceCalibration => {
+  if (passageCount === 0 || baselineSimilarities.length === 0) {
+    return { similarity, baseline: 0, confidence: 0, level: 'unrelated' };
+  }
+
+  const count = baselineSimilarities.length;
+  const baseline = baselineSimilarities.reduce((sum, value) => sum + value, 0) / count;
+  const variance = baselineSimilarities.reduce((sum, value) => sum + (value - baseline) ** 2, 0) / count;
+  const spread = Math.max(Math.sqrt(variance), CALIBRATION.MIN_BASELINE_SPREAD);
+  const confidence = Math.pow(normalCdf((similarity - baseline) / spread), passageCount);
+
+  const level = confidence >= CALIBRATION.GROUNDED_CONFIDENCE
+    ? 'grounded'
+    : similarity > baseline ? 'topical' : 'unrelated';
+  return { similarity, baseline, confidence, level };
+};
+
+/**
+ * 0-100 for the UI: how far the similarity sits above the baseline, as a share
+ * of the distance from the baseline to an identical text.
+ */
+export const calibratedScore = ({ similarity, baseline }: SourceCalibration): number => {
+  if (baseline >= 1) return 0;
+  return Math.min(100, Math.max(0, Math.round(((similarity - baseline) / (1 - baseline)) * 100)));
+};
@@ -0,0 +1,63 @@
+// Live call captions: transcription fragments from both speakers, grouped into
+// one caption per speaker turn
+
+import { ChatMessage } from '../types';
+
+export interface Caption {
+  id: number;
+  role: 'user' | 'model';
+  text: string;
+  startedAt: number;
+  final: boolean; // No more text will be added
+  interrupted?: boolean; // Avatar reply cut off by the user
+}
+
+let nextCaptionId = 1;
+
+const closeLast = (captions: Caption[], patch: Partial<Caption> = {}): Caption[] => {
+  const last = captions[captions.length - 1];
+  if (!last || last.final) return captions;
+  return [...captions.slice(0, -1), { ...last, ...patch, final: true }];
+};
+
+/**
+ * Adds a transcription fragment. It extends the open caption of the same
+ * speaker; a fragment from the other speaker closes that caption first.
+ */
+export const appendCaption = (captions: Caption[], role: Caption['role'], text: string): Caption[] => {
+  const last = captions[captions.length - 1];
+  if (last && !last.final && last.role === role) {
+    return [...captions.slice(0, -1), { ...last, text: last.text + text }];
+  }
+  return [...closeLast(captions), { id: nextCaptionId++, role, text, startedAt: Date.now(), final: false }];
+};
+
+// End of a turn: whatever is still open is complete
+export const closeCaptions = (captions: Caption[]): Caption[] => closeLast(captions);
+
+// The user talked over the avatar; its open reply stops where it was cut off
+export const interruptCaptions = (captions: Caption[]): Caption[] => {
+  const last = captions[captions.length - 1];
+  return last?.role === 'model' ? closeLast(captions, { interrupted: true }) : captions;
+};
+
+export const captionsToMessages = (captions: Caption[]): ChatMessage[] =>
+  captions
+    .filter(caption => caption.text.trim())
+    .map(caption => ({
+      role: caption.role,
+      text: caption.text.trim(),
+      timestamp: caption.startedAt,
+      ...(caption.interrupted && { interrupted: true }),
+    }));
+
+/**
+ * The last few finished captions as a plain transcript, for carrying the
+ * conversation into a fresh session after the old one could not be resumed.
+ */
+export const captionsToContext = (captions: Caption[], avatarName: string, limit: number): string =>
+  captions
+    .filter(caption => caption.final && caption.text.trim())
+    .slice(-limit)
+    .map(caption => `${caption.role === 'user' ? 'User' : avatarName}: ${caption.text.trim()}${caption.interrupted ? ' (interrupted)' : ''}`)
+    .join('\n');
@@ -0,0 +1,61 @@
+import { DEFAULT_CONTEXT_SETTINGS } from "../constants";
+import { AvatarProfile, ChatMessage, ContextSettings, ConversationSummary } from "../types";
+
+// Rough heuristic (~4 characters per token) - good enough for budgeting
+export const estimateTokens = (text: string): number => Math.ceil(text.length / 4);
+
+export const getContextSettings = (profile: AvatarProfile): ContextSettings => ({
+  ...DEFAULT_CONTEXT_SETTINGS,
+  ...profile.contextSettings,
+});
+
+/**
+ * Messages not yet folded into the rolling summary.
+ */
+export const getUnsummarizedMessages = (messages: ChatMessage[], summary?: ConversationSummary): ChatMessage[] => {
+  return messages.slice(summary?.coveredCount || 0);
+};
+
+/**
+ * Decides whether the thread has outgrown its budget. When it has, returns the
+ * messages to fold into the summary (everything but the recent window) and
+ * the new coveredCount; otherwise null.
+ */
+export const planSummaryUpdate = (
+  messages: ChatMessage[],
+  summary: ConversationSummary | undefined,
+  settings: ContextSettings
+): { toSummarize: ChatMessage[]; coveredCount: number } | null => {
+  const coveredCount = summary?.coveredCount || 0;
+  const pending = messages.slice(coveredCount);
+  const pendingTokens = pending.reduce((sum, m) => sum + estimateTokens(m.text), 0);
+
+  if (pendingTokens <= settings.historyTokenBudget) return null;
+
+  const newCoveredCount = Math.max(coveredCount, messages.length - settings.recentWindow);
+  if (newCoveredCount <= coveredCount) return null;
+
+  return {
+    toSummarize: messages.slice(coveredCount, newCoveredCount),
+    coveredCount: newCoveredCount,
+  };
+};
+
+/**
+ * Newest-first selection of history that fits the token budget. The recent
+ * window is always kept, even if it alone exceeds the budget.
+ */
+export const fitHistoryToBudget = <T extends { text: string }>(history: T[], settings: ContextSettings): T[] => {
+  let tokens = 0;
+  let start = history.length;
+
+  while (start > 0) {
+    const next = estimateTokens(history[start - 1].text);
+    const inWindow = history.length - start < settings.recentWindow;
+    if (!inWindow && tokens + next > settings.historyTokenBudget) break;
+    tokens += next;
+    start--;
+  }
+
+  return history.slice(start);
+};
@@ -0,0 +1,111 @@
+// Thin promise wrapper around the browser IndexedDB API.
+// All local persistence (profiles, threads, caches) shares one database.
+
+const DB_NAME = 'memory-avatar';
+const DB_VERSION = 4;
+
+export const STORES = {
+  PROFILES: 'profiles',
+  THREADS: 'threads',
+  EMBEDDINGS: 'embeddings',
+  SPEECH_AUDIO: 'speechAudio',
+  SPEECH_ENTRIES: 'speechEntries',
+} as const;
+
+export type StoreName = typeof STORES[keyof typeof STORES];
+
+let dbPromise: Promise<IDBDatabase> | null = null;
+
+export const openDatabase = (): Promise<IDBDatabase> => {
+  if (dbPromise) return dbPromise;
+
+  dbPromise = new Promise((resolve, reject) => {
+    const request = indexedDB.open(DB_NAME, DB_VERSION);
+
+    request.onupgradeneeded = () => {
+      const db = request.result;
+      if (!db.objectStoreNames.contains(STORES.PROFILES)) {
+        db.createObjectStore(STORES.PROFILES, { keyPath: 'profile.id' });
+      }
+      if (!db.objectStoreNames.contains(STORES.THREADS)) {
+        const threads = db.createObjectStore(STORES.THREADS, { keyPath: 'id' });
+        threads.createIndex('profileId', 'profileId', { unique: false });
+      }
+      if (!db.objectStoreNames.contains(STORES.EMBEDDINGS)) {
+        db.createObjectStore(STORES.EMBEDDINGS, { keyPath: 'key' });
+      }
+      // Synthesized speech: audio and the small LRU bookkeeping records are kept
+      // apart so eviction never has to load the audio
+      if (!db.objectStoreNames.contains(STORES.SPEECH_AUDIO)) {
+        db.createObjectStore(STORES.SPEECH_AUDIO, { keyPath: 'key' });
+      }
+      if (!db.objectStoreNames.contains(STORES.SPEECH_ENTRIES)) {
+        db.createObjectStore(STORES.SPEECH_ENTRIES, { keyPath: 'key' });
+      }
+    };
+
+    request.onsuccess = () => resolve(request.result);
+    request.onerror = () => {
+      dbPromise = null;
+      reject(request.error || new Error('Failed to open local database'));
+    };
+  });
+
+  return dbPromise;
+};
+
+export const requestToPromise = <T>(request: IDBRequest<T>): Promise<T> => {
+  return new Promise((resolve, reject) => {
+    request.onsuccess = () => resolve(request.result);
+    request.onerror = () => reject(request.error);
+  });
+};
+
+/**
+ * Runs a single request against an object store and resolves once the
+ * transaction has committed.
+ */
+export const withStore = async <T>(
+  storeName: StoreName,
+  mode: IDBTransactionMode,
+  operation: (store: IDBObjectStore) => IDBRequest<T>
+): Promise<T> => {
+  const db = await openDatabase();
+  const tx = db.transaction(storeName, mode);
+  const result = requestToPromise(operation(tx.objectStore(storeName)));
+  const committed = new Promise<void>((resolve, reject) => {
+    tx.oncomplete = () => resolve();
+    tx.onerror = () => reject(tx.error);
+    tx.onabort = () => reject(tx.error || new Error('Transaction aborted'));
+  });
+
+  // Both reject when the request fails; awaiting them together handles both
+  const [value] = await Promise.all([result, committed]);
+  return value;
+};
+
+/**
+ * Runs writes across several stores in one transaction, so either all of them
+ * are saved or none are. Resolves once the transaction has committed.
+ */
+export const withTransaction = async (
+  storeNames: StoreName[],
+  operation: (tx: IDBTransaction) => void
+): Promise<void> => {
+  const db = await openDatabase();
+  const tx = db.transaction(storeNames, 'readwrite');
+  const committed = new Promise<void>((resolve, reject) => {
+    tx.oncomplete = () => resolve();
+    tx.onerror = () => reject(tx.error);
+    tx.onabort = () => reject(tx.error || new Error('Transaction aborted'));
+  });
+
+  try {
+    operation(tx);
+  } catch (e) {
+    committed.catch(() => {}); // The abort below rejects it; e is the error that matters
+    tx.abort();
+    throw e;
+  }
+  return committed;
+};
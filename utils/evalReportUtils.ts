@@ -0,0 +1,72 @@
+// Standalone HTML page for an evaluation report, readable without the app
+
+import { EvalCheckKey, EvalReport } from "../types";
+
+const CHECK_LABELS: Record<EvalCheckKey, string> = {
+  facts: 'Facts',
+  forbiddenClaims: 'Forbidden claims',
+  character: 'In character',
+  format: 'Format',
+  style: 'Style',
+};
+
+const escapeHtml = (text: string): string =>
+  text.replace(/&/g, '&amp;').replace(/</g, '&lt;').replace(/>/g, '&gt;').replace(/"/g, '&quot;');
+
+const scoreClass = (score: number) => score >= 80 ? 'good' : score >= 50 ? 'fair' : 'poor';
+
+const STYLES = `
+body { font-family: system-ui, sans-serif; background: #0f172a; color: #e2e8f0; margin: 2rem; }
+h1 { margin-bottom: 0.25rem; }
+.meta { color: #94a3b8; font-size: 0.85rem; margin-bottom: 1.5rem; }
+.summary { display: flex; gap: 1rem; flex-wrap: wrap; margin-bottom: 2rem; }
+.card { background: #1e293b; border: 1px solid #334155; border-radius: 0.5rem; padding: 0.75rem 1rem; min-width: 8rem; }
+.card b { display: block; font-size: 1.5rem; }
+.probe { background: #1e293b; border: 1px solid #334155; border-radius: 0.5rem; padding: 1rem; margin-bottom: 1rem; }
+.probe header { display: flex; justify-content: space-between; gap: 1rem; }
+.question { color: #cbd5e1; }
+.reply { background: #0f172a; border-left: 3px solid #a855f7; padding: 0.5rem 0.75rem; margin: 0.75rem 0; white-space: pre-wrap; }
+.checks { display: flex; gap: 0.5rem; flex-wrap: wrap; font-size: 0.8rem; }
+.check { border: 1px solid #334155; border-radius: 999px; padding: 0.1rem 0.6rem; }
+ul { margin: 0.5rem 0 0; padding-left: 1.25rem; color: #fbbf24; font-size: 0.85rem; }
+.good { color: #4ade80; } .fair { color: #fbbf24; } .poor { color: #f87171; }
+.error { color: #f87171; }
+`;
+
+export const renderEvalReportHtml = (report: EvalReport): string => {
+  const summaryCards = [
+    ['Score', `${report.score}`, scoreClass(report.score)],
+    ['Passed', `${Math.round(report.passRate * 100)}%`, scoreClass(report.passRate * 100)],
+    ...(Object.entries(report.checkScores) as [EvalCheckKey, number][]).map(([key, score]) => [CHECK_LABELS[key], `${score}`, scoreClass(score)]),
+  ].map(([label, value, className]) => `<div class="card">${escapeHtml(label)}<b class="${className}">${escapeHtml(value)}</b></div>`).join('');
+
+  const probes = report.results.map(result => {
+    const checks = result.checks.map(check =>
+      `<span class="check ${check.passed ? 'good' : 'poor'}">${CHECK_LABELS[check.key]} ${Math.round(check.score * 100)}</span>`
+    ).join('');
+    const details = result.checks.flatMap(check => check.details.map(detail => `<li>${CHECK_LABELS[check.key]}: ${escapeHtml(detail)}</li>`)).join('');
+    return `<section class="probe">
+  <header><strong>${escapeHtml(result.probe.id)}</strong><span class="${result.passed ? 'good' : 'poor'}">${result.passed ? 'PASS' : 'FAIL'} · ${result.score}</span></header>
+  <div class="question">${escapeHtml(result.probe.question)}</div>
+  ${result.error ? `<p class="error">Error: ${escapeHtml(result.error)}</p>` : `<div class="reply">${escapeHtml(result.reply)}</div>`}
+  <div class="checks">${checks}</div>
+  ${details ? `<ul>${details}</ul>` : ''}
+</section>`;
+  }).join('\n');
+
+  return `<!DOCTYPE html>
+<html lang="en">
+<head>
+<meta charset="utf-8">
+<title>${escapeHtml(`${report.suite}: ${report.score}`)}</title>
+<style>${STYLES}</style>
+</head>
+<body>
+<h1>${escapeHtml(report.suite)}</h1>
+<div class="meta">${escapeHtml(report.avatar)} · ${escapeHtml(report.provider)} · ${escapeHtml(report.startedAt)} · ${(report.durationMs / 1000).toFixed(1)} s</div>
+<div class="summary">${summaryCards}</div>
+${probes}
+</body>
+</html>
+`;
+};
@@ -0,0 +1,132 @@
+// Checks for the persona evaluation (services/evaluationService.ts). Each one
+// looks at a single reply and returns a 0-1 score with what it found.
+
+import { EVALUATION } from "../constants";
+import { AvatarProfile, EvalCheck, EvalCheckKey, EvalProbe } from "../types";
+import { splitSentences } from "./memoryUtils";
+import { compareStyle } from "./stylometryUtils";
+
+// Phrases that give away a language model instead of the person
+const CHARACTER_BREAKS: { pattern: RegExp; label: string }[] = [
+  { pattern: /\bas an ai\b/i, label: '"As an AI"' },
+  { pattern: /\b(?:i am|i'm) (?:an? )?(?:ai|artificial intelligence|chatbot|bot|assistant|virtual assistant)\b/i, label: 'Says it is an AI' },
+  { pattern: /\blanguage model\b/i, label: 'Mentions a language model' },
+  { pattern: /\bi (?:was|have been) (?:created|trained|programmed|designed)\b/i, label: 'Talks about being built' },
+  { pattern: /\bi (?:do not|don't|cannot|can't) have (?:personal )?(?:memories|feelings|experiences|a body)\b/i, label: 'Denies having a life' },
+  { pattern: /\b(?:made|built|developed|trained) by (?:openai|google|anthropic)\b/i, label: 'Names its maker' },
+];
+
+const EMOJI = /\p{Extended_Pictographic}/u;
+// *smiles*, _sighs_, (laughs softly), [pauses]
+const STAGE_DIRECTION = /\*[^*\n]{1,40}\*|(?:^|\s)_[^_\n]{1,40}_(?:\s|$)|\((?:smiles|laughs|sighs|chuckles|pauses|nods|grins|winks)[^)]{0,30}\)|\[(?:smiles|laughs|sighs|chuckles|pauses|nods|grins|winks)[^\]]{0,30}\]/i;
+const MARKDOWN = /^\s*(?:#{1,6}\s|[-*+]\s|\d+\.\s)/m;
+const YEAR = /\b(1[89]\d\d|20\d\d)s?\b/g;
+
+const normalize = (text: string): string =>
+  ` ${text.toLowerCase().replace(/[’‘]/g, "'").replace(/[^a-z0-9']+/g, ' ').trim()} `;
+
+// True when the text contains the phrase, or any of its alternatives, as whole words
+const mentions = (normalizedText: string, phrase: string | string[]): boolean =>
+  (Array.isArray(phrase) ? phrase : [phrase]).some(option => normalizedText.includes(normalize(option)));
+
+const describe = (phrase: string | string[]): string =>
+  Array.isArray(phrase) ? phrase.map(option => `"${option}"`).join(' / ') : `"${phrase}"`;
+
+/**
+ * Expected facts the reply mentions, plus years it states that appear nowhere
+ * in the memories, which usually means an invented detail.
+ */
+export const checkFacts = (reply: string, probe: EvalProbe, profile: AvatarProfile): EvalCheck => {
+  const text = normalize(reply);
+  const expected = probe.expectedFacts || [];
+  const missing = expected.filter(fact => !mentions(text, fact));
+
+  const knownYears = new Set(Array.from((profile.memories || '').matchAll(YEAR), match => match[1]));
+  const unsupportedYears = Array.from(new Set(Array.from(reply.matchAll(YEAR), match => match[1])))
+    .filter(year => !knownYears.has(year));
+
+  const factScore = expected.length ? (expected.length - missing.length) / expected.length : 1;
+  const score = Math.max(0, factScore - unsupportedYears.length * EVALUATION.UNSUPPORTED_YEAR_PENALTY);
+  return {
+    key: 'facts',
+    score,
+    passed: score >= EVALUATION.MIN_FACT_SCORE,
+    details: [
+      ...missing.map(fact => `Missing ${describe(fact)}`),
+      ...unsupportedYears.map(year => `Mentions ${year}, which is not in the memories`),
+    ],
+  };
+};
+
+export const checkForbiddenClaims = (reply: string, probe: EvalProbe): EvalCheck => {
+  const text = normalize(reply);
+  const made = (probe.forbiddenClaims || []).filter(claim => mentions(text, claim));
+  return {
+    key: 'forbiddenClaims',
+    score: made.length ? 0 : 1,
+    passed: made.length === 0,
+    details: made.map(claim => `Claims ${describe(claim)}`),
+  };
+};
+
+export const checkCharacter = (reply: string): EvalCheck => {
+  const breaks = CHARACTER_BREAKS.filter(({ pattern }) => pattern.test(reply)).map(({ label }) => label);
+  return { key: 'character', score: breaks.length ? 0 : 1, passed: breaks.length === 0, details: breaks };
+};
+
+/**
+ * The interaction rules from buildSystemPrompt: a few sentences of plain text,
+ * no emojis, no stage directions.
+ */
+export const checkFormat = (reply: string): EvalCheck => {
+  const sentences = reply.split(/\n+/).flatMap(splitSentences).length;
+  const problems = [
+    sentences > EVALUATION.MAX_SENTENCES && `${sentences} sentences (at most ${EVALUATION.MAX_SENTENCES})`,
+    EMOJI.test(reply) && 'Uses emojis',
+    STAGE_DIRECTION.test(reply) && 'Contains stage directions',
+    MARKDOWN.test(reply) && 'Uses markdown formatting',
+  ].filter((problem): problem is string => !!problem);
+  const score = Math.max(0, 1 - problems.length / 2);
+  return { key: 'format', score, passed: problems.length === 0, details: problems };
+};
+
+// Null when the profile has too few style samples to fingerprint
+export const checkStyle = (reply: string, profile: AvatarProfile): EvalCheck | null => {
+  const report = compareStyle(reply, profile.styleSamples || '');
+  if (!report) return null;
+  const score = report.score / 100;
+  return {
+    key: 'style',
+    score,
+    passed: score >= EVALUATION.MIN_STYLE_SCORE,
+    details: report.features
+      .filter(feature => feature.similarity < EVALUATION.MIN_STYLE_SCORE)
+      .map(feature => `${feature.label}: ${feature.reply} vs. ${feature.sample}`),
+  };
+};
+
+export const runChecks = (reply: string, probe: EvalProbe, profile: AvatarProfile): EvalCheck[] => {
+  const style = checkStyle(reply, profile);
+  return [
+    checkFacts(reply, probe, profile),
+    checkForbiddenClaims(reply, probe),
+    checkCharacter(reply),
+    checkFormat(reply),
+    ...(style ? [style] : []),
+  ];
+};
+
+/**
+ * Weighted score of a probe, 0-100. A forbidden claim or a character break
+ * fails the probe outright; other checks only lower the score.
+ */
+export const scoreChecks = (checks: EvalCheck[]): { score: number; passed: boolean } => {
+  const weight = (key: EvalCheckKey) => EVALUATION.WEIGHTS[key];
+  const totalWeight = checks.reduce((sum, check) => sum + weight(check.key), 0);
+  const score = checks.reduce((sum, check) => sum + check.score * weight(check.key), 0) / Math.max(totalWeight, 1e-9);
+  const hardFailure = checks.some(check => !check.passed && (check.key === 'forbiddenClaims' || check.key === 'character'));
+  return {
+    score: Math.round(score * 100),
+    passed: !hardFailure && score * 100 >= EVALUATION.PASS_SCORE,
+  };
+};
@@ -0,0 +1,25 @@
+// Helpers for portraits stored as bare base64 (no data URL prefix)
+
+/**
+ * Sniffs the image type from the file header, so JPEG uploads saved before
+ * preprocessing existed are not mislabelled as PNG.
+ */
+export const detectImageMimeType = (base64: string): string => {
+  if (base64.startsWith('/9j/')) return 'image/jpeg';
+  if (base64.startsWith('R0lGOD')) return 'image/gif';
+  if (base64.startsWith('UklGR')) return 'image/webp';
+  return 'image/png';
+};
+
+export const toImageDataUrl = (base64: string): string => {
+  return `data:${detectImageMimeType(base64)};base64,${base64}`;
+};
+
+export const loadImage = (src: string): Promise<HTMLImageElement> => {
+  return new Promise((resolve, reject) => {
+    const image = new Image();
+    image.onload = () => resolve(image);
+    image.onerror = () => reject(new Error('The file could not be read as an image.'));
+    image.src = src;
+  });
+};
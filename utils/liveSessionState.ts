@@ -0,0 +1,66 @@
+// Lifecycle of a live call. A dropped connection is retried with exponential
+// backoff; once the attempts run out the call fails until the user retries.
+
+import { LIVE_RECONNECT } from '../constants';
+import { LiveSessionStatus } from '../types';
+
+export interface LiveSessionState {
+  status: LiveSessionStatus;
+  attempt: number; // Reconnect attempts since the call was last live
+  reason?: string; // Why the last connection dropped, or why the call failed
+}
+
+export type LiveSessionAction =
+  | { type: 'live' } // The server is answering
+  | { type: 'drop'; reason: string } // Worth retrying
+  | { type: 'fail'; reason: string } // Retrying would not help, e.g. rejected credentials
+  | { type: 'retry' } // Manual retry after failing
+  | { type: 'end' };
+
+export const INITIAL_LIVE_SESSION_STATE: LiveSessionState = { status: 'connecting', attempt: 0 };
+
+export const liveSessionReducer = (state: LiveSessionState, action: LiveSessionAction): LiveSessionState => {
+  // Nothing reopens an ended call
+  if (state.status === 'ended') return state;
+
+  switch (action.type) {
+    case 'live':
+      return { status: 'live', attempt: 0 };
+    case 'drop':
+      if (state.status === 'failed') return state;
+      if (state.attempt >= LIVE_RECONNECT.MAX_ATTEMPTS) {
+        return { status: 'failed', attempt: state.attempt, reason: action.reason };
+      }
+      return { status: 'reconnecting', attempt: state.attempt + 1, reason: action.reason };
+    case 'fail':
+      return { status: 'failed', attempt: state.attempt, reason: action.reason };
+    case 'retry':
+      return state.status === 'failed' ? { status: 'connecting', attempt: 0 } : state;
+    case 'end':
+      return { status: 'ended', attempt: state.attempt };
+  }
+};
+
+/**
+ * Delay before reconnect attempt `attempt` (1-based): doubling from the base
+ * delay up to the cap, with jitter so many clients do not retry in lockstep.
+ */
+export const getReconnectDelay = (attempt: number): number => {
+  const delay = Math.min(LIVE_RECONNECT.MAX_DELAY_MS, LIVE_RECONNECT.BASE_DELAY_MS * 2 ** (attempt - 1));
+  return Math.round(delay * (0.5 + Math.random() * 0.5));
+};
+
+export const describeLiveSessionStatus = (state: LiveSessionState): string => {
+  switch (state.status) {
+    case 'connecting':
+      return 'Connecting...';
+    case 'live':
+      return 'Live';
+    case 'reconnecting':
+      return `Reconnecting (${state.attempt}/${LIVE_RECONNECT.MAX_ATTEMPTS})...`;
+    case 'ended':
+      return 'Call ended';
+    case 'failed':
+      return 'Disconnected';
+  }
+};
@@ -0,0 +1,126 @@
+import { MEMORY_CHUNK_MAX_CHARS } from "../constants";
+import { AvatarProfile, MemoryEntry, MemoryTone } from "../types";
+import { hashText } from "./vectorUtils";
+
+const YEAR_PATTERN = /\b(1[89]\d\d|20\d\d)s?\b/;
+
+export const splitSentences = (text: string): string[] => {
+  return text.match(/[^.!?]+[.!?]+["')\]]*|[^.!?]+$/g)?.map(s => s.trim()).filter(Boolean) || [];
+};
+
+/**
+ * Splits free-text memories into retrievable chunks.
+ * Each line/paragraph becomes one chunk; long ones are packed sentence by
+ * sentence up to MEMORY_CHUNK_MAX_CHARS.
+ */
+export const chunkMemoryText = (text: string): string[] => {
+  const chunks: string[] = [];
+
+  text.split(/\n+/).map(p => p.trim()).filter(Boolean).forEach(paragraph => {
+    if (paragraph.length <= MEMORY_CHUNK_MAX_CHARS) {
+      chunks.push(paragraph);
+      return;
+    }
+
+    let current = '';
+    splitSentences(paragraph).forEach(sentence => {
+      if (current && current.length + sentence.length + 1 > MEMORY_CHUNK_MAX_CHARS) {
+        chunks.push(current);
+        current = '';
+      }
+      current = current ? `${current} ${sentence}` : sentence;
+    });
+    if (current) chunks.push(current);
+  });
+
+  return chunks;
+};
+
+export const createMemoryId = (): string => {
+  return `${Date.now().toString()}-${Math.random().toString(36).slice(2, 8)}`;
+};
+
+export const createMemoryEntry = (text: string): MemoryEntry => {
+  const year = text.match(YEAR_PATTERN)?.[0];
+  return {
+    id: hashText(text),
+    text,
+    date: year,
+  };
+};
+
+/**
+ * The discrete memories of a profile. Structured entries win; otherwise the
+ * free-text `memories` field is chunked on the fly.
+ */
+export const getMemoryEntries = (profile: AvatarProfile): MemoryEntry[] => {
+  if (profile.memoryEntries && profile.memoryEntries.length > 0) {
+    return profile.memoryEntries;
+  }
+  return chunkMemoryText(profile.memories || '').map(createMemoryEntry);
+};
+
+/**
+ * Sort key for the timeline. "1965", "1960s" and "1965-1970" all resolve to
+ * their first year; eras without a year (e.g. "Childhood") return undefined.
+ */
+export const getMemoryYear = (entry: MemoryEntry): number | undefined => {
+  return parseYear(entry.date);
+};
+
+// First year mentioned in a date or era label, e.g. "1960s" -> 1960
+export const parseYear = (text?: string): number | undefined => {
+  const match = text?.match(YEAR_PATTERN);
+  return match ? parseInt(match[1], 10) : undefined;
+};
+
+/**
+ * Chronological order; undated entries keep their relative order at the end.
+ */
+export const sortMemoriesChronologically = (entries: MemoryEntry[]): MemoryEntry[] => {
+  return entries
+    .map((entry, index) => ({ entry, index, year: getMemoryYear(entry) }))
+    .sort((a, b) => {
+      if (a.year === undefined && b.year === undefined) return a.index - b.index;
+      if (a.year === undefined) return 1;
+      if (b.year === undefined) return -1;
+      return a.year - b.year || a.index - b.index;
+    })
+    .map(item => item.entry);
+};
+
+/**
+ * Flattens structured entries into the `memories` text field, one entry per
+ * line, so full-text consumers (live sessions, explainability) see the same facts.
+ */
+export const serializeMemoryEntries = (entries: MemoryEntry[]): string => {
+  return sortMemoriesChronologically(entries)
+    .map(entry => formatMemoryForPrompt(entry).replace(/^- /, ''))
+    .join('\n');
+};
+
+/**
+ * Text sent to the embedding model for an entry, including its metadata so
+ * questions about people or places can match.
+ */
+export const formatMemoryForEmbedding = (entry: MemoryEntry): string => {
+  const meta = [
+    entry.title && `Title: ${entry.title}`,
+    entry.date && `Date: ${entry.date}`,
+    entry.place && `Place: ${entry.place}`,
+    entry.people?.length && `People: ${entry.people.join(', ')}`,
+    entry.tags?.length && `Tags: ${entry.tags.join(', ')}`,
+  ].filter(Boolean).join('. ');
+  return meta ? `${meta}. ${entry.text}` : entry.text;
+};
+
+export const formatMemoryForPrompt = (entry: MemoryEntry): string => {
+  const meta = [
+    entry.date,
+    entry.place,
+    entry.people?.length ? `with ${entry.people.join(', ')}` : '',
+    entry.tone && entry.tone !== MemoryTone.Neutral ? `feeling ${entry.tone.toLowerCase()}` : '',
+  ].filter(Boolean).join(' | ');
+  const body = entry.title ? `${entry.title}: ${entry.text}` : entry.text;
+  return meta ? `- (${meta}) ${body}` : `- ${body}`;
+};
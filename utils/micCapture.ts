@@ -0,0 +1,139 @@
+// Microphone capture on the audio thread. An AudioWorklet resamples whatever the
+// device rate is to 16 kHz, converts to PCM16 with clipping and posts fixed-size frames.
+
+import { AUDIO_SAMPLE_RATE_INPUT, MIC_FRAME_SAMPLES } from '../constants';
+
+const PROCESSOR_NAME = 'pcm16-capture';
+
+// Plain JS so it can be loaded from a Blob URL without a bundler step
+const WORKLET_SOURCE = `
+class Pcm16CaptureProcessor extends AudioWorkletProcessor {
+  constructor(options) {
+    super();
+    const { targetSampleRate, frameSamples } = options.processorOptions;
+    this.step = sampleRate / targetSampleRate;
+    this.position = 0; // Read position in the current block; 0 is the last sample of the previous one
+    this.previous = 0;
+    this.filtered = 0;
+    this.block = new Float32Array(129);
+    // One-pole low-pass below the target Nyquist frequency to limit aliasing
+    const cutoff = 0.45 * Math.min(targetSampleRate, sampleRate);
+    this.alpha = 1 - Math.exp(-2 * Math.PI * cutoff / sampleRate);
+    this.frame = new Int16Array(frameSamples);
+    this.frameIndex = 0;
+    this.sumSquares = 0;
+  }
+
+  process(inputs) {
+    const channel = inputs[0] && inputs[0][0];
+    if (!channel) return true;
+
+    const length = channel.length;
+    if (this.block.length !== length + 1) this.block = new Float32Array(length + 1);
+    const block = this.block;
+    block[0] = this.previous;
+    for (let i = 0; i < length; i++) {
+      this.filtered += this.alpha * (channel[i] - this.filtered);
+      block[i + 1] = this.filtered;
+    }
+    this.previous = block[length];
+
+    // Linear interpolation at the target rate
+    while (this.position < length) {
+      const index = Math.floor(this.position);
+      const fraction = this.position - index;
+      this.push(block[index] + (block[index + 1] - block[index]) * fraction);
+      this.position += this.step;
+    }
+    this.position -= length;
+    return true;
+  }
+
+  push(sample) {
+    const clipped = sample > 1 ? 1 : sample < -1 ? -1 : sample;
+    this.sumSquares += clipped * clipped;
+    this.frame[this.frameIndex++] = clipped < 0 ? clipped * 0x8000 : clipped * 0x7fff;
+
+    if (this.frameIndex === this.frame.length) {
+      const level = Math.sqrt(this.sumSquares / this.frame.length);
+      this.port.postMessage({ pcm: this.frame.buffer, level }, [this.frame.buffer]);
+      this.frame = new Int16Array(this.frame.length);
+      this.frameIndex = 0;
+      this.sumSquares = 0;
+    }
+  }
+}
+
+registerProcessor('${PROCESSOR_NAME}', Pcm16CaptureProcessor);
+`;
+
+export interface MicCaptureOptions {
+  onFrame: (pcm: Int16Array, level: number) => void; // Level is the frame's RMS, 0-1
+  sampleRate?: number;
+  frameSamples?: number;
+  constraints?: MediaTrackConstraints;
+}
+
+export interface MicCapture {
+  sampleRate: number; // Of the frames, not the device
+  deviceSampleRate: number;
+  stop: () => Promise<void>;
+}
+
+let workletUrl: string | null = null;
+
+const getWorkletUrl = (): string => {
+  if (!workletUrl) {
+    workletUrl = URL.createObjectURL(new Blob([WORKLET_SOURCE], { type: 'application/javascript' }));
+  }
+  return workletUrl;
+};
+
+/**
+ * Opens the microphone and streams PCM16 frames at `sampleRate` (16 kHz by
+ * default) to onFrame. Stopping releases the microphone and the audio context.
+ */
+export const startMicCapture = async ({
+  onFrame,
+  sampleRate = AUDIO_SAMPLE_RATE_INPUT,
+  frameSamples = MIC_FRAME_SAMPLES,
+  constraints = { channelCount: 1, echoCancellation: true, noiseSuppression: true, autoGainControl: true },
+}: MicCaptureOptions): Promise<MicCapture> => {
+  const stream = await navigator.mediaDevices.getUserMedia({ audio: constraints });
+  // Runs at the device's native rate; resampling happens in the worklet
+  const AudioContextClass = window.AudioContext || window.webkitAudioContext;
+  const ctx = new AudioContextClass();
+
+  try {
+    await ctx.audioWorklet.addModule(getWorkletUrl());
+    const source = ctx.createMediaStreamSource(stream);
+    const node = new AudioWorkletNode(ctx, PROCESSOR_NAME, {
+      numberOfInputs: 1,
+      numberOfOutputs: 1, // Silent, but connected so the graph keeps pulling the worklet
+      channelCount: 1,
+      channelCountMode: 'explicit',
+      processorOptions: { targetSampleRate: sampleRate, frameSamples },
+    });
+    node.port.onmessage = (event: MessageEvent<{ pcm: ArrayBuffer; level: number }>) => {
+      onFrame(new Int16Array(event.data.pcm), event.data.level);
+    };
+    source.connect(node);
+    node.connect(ctx.destination);
+
+    return {
+      sampleRate,
+      deviceSampleRate: ctx.sampleRate,
+      stop: async () => {
+        node.port.onmessage = null;
+        source.disconnect();
+        node.disconnect();
+        stream.getTracks().forEach(track => track.stop());
+        if (ctx.state !== 'closed') await ctx.close();
+      },
+    };
+  } catch (e) {
+    stream.getTracks().forEach(track => track.stop());
+    ctx.close();
+    throw e;
+  }
+};
@@ -0,0 +1,88 @@
+// Profile sources split into sentence-level passages, so a reply can be traced
+// back to the specific memory sentences and style excerpts it resembles
+
+import { ATTRIBUTION } from "../constants";
+import { AttributedPassage, AttributionSource, AvatarProfile } from "../types";
+import { getMemoryEntries, splitSentences } from "./memoryUtils";
+
+export interface SourcePassage {
+  source: AttributionSource;
+  text: string;
+  context: string;
+  label?: string;
+}
+
+/**
+ * Splits one block of text into passages: its sentences, with short ones
+ * joined to the next so fragments like "Yes." are not scored on their own.
+ */
+export const splitPassages = (text: string): string[] => {
+  const passages: string[] = [];
+  let pending = '';
+
+  text.split(/\n+/).forEach(paragraph => {
+    splitSentences(paragraph).forEach(sentence => {
+      pending = pending ? `${pending} ${sentence}` : sentence;
+      if (pending.length >= ATTRIBUTION.MIN_PASSAGE_CHARS) {
+        passages.push(pending);
+        pending = '';
+      }
+    });
+  });
+  // A short tail still counts, attached to the previous passage if there is one
+  if (pending) {
+    if (passages.length > 0) passages[passages.length - 1] += ` ${pending}`;
+    else passages.push(pending);
+  }
+  return passages;
+};
+
+const fromParagraphs = (source: AttributionSource, text: string): SourcePassage[] =>
+  text.split(/\n+/).map(p => p.trim()).filter(Boolean).flatMap(paragraph =>
+    splitPassages(paragraph).map(passage => ({ source, text: passage, context: paragraph }))
+  );
+
+/**
+ * Every passage a reply can be attributed to: memory sentences (with their
+ * entry as context), style sample excerpts and personality statements.
+ */
+export const getSourcePassages = (profile: AvatarProfile): SourcePassage[] => {
+  const memories = getMemoryEntries(profile).flatMap(entry =>
+    splitPassages(entry.text).map(passage => ({
+      source: 'memory' as const,
+      text: passage,
+      context: entry.text,
+      label: entry.title || entry.date,
+    }))
+  );
+
+  return [
+    ...memories.slice(0, ATTRIBUTION.MAX_PASSAGES_PER_SOURCE),
+    ...fromParagraphs('style', profile.styleSamples || '').slice(0, ATTRIBUTION.MAX_PASSAGES_PER_SOURCE),
+    ...fromParagraphs('personality', profile.personality || '').slice(0, ATTRIBUTION.MAX_PASSAGES_PER_SOURCE),
+  ];
+};
+
+/**
+ * The most similar passages of each source, best first. `similarities` is
+ * aligned with `passages`.
+ */
+export const rankPassages = (
+  passages: SourcePassage[],
+  similarities: number[],
+  topPerSource: number = ATTRIBUTION.TOP_PASSAGES_PER_SOURCE
+): AttributedPassage[] => {
+  const ranked = passages
+    .map((passage, i) => ({ ...passage, similarity: similarities[i] }))
+    .sort((a, b) => b.similarity - a.similarity);
+
+  const counts: Partial<Record<AttributionSource, number>> = {};
+  return ranked.filter(passage => {
+    counts[passage.source] = (counts[passage.source] || 0) + 1;
+    return counts[passage.source]! <= topPerSource;
+  });
+};
+
+// Best similarity among the passages of one source, 0 when it has none
+export const getTopSimilarity = (passages: AttributedPassage[], source: AttributionSource): number =>
+  passages.find(passage => passage.source === source)?.similarity ?? 0;
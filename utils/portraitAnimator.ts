@@ -0,0 +1,202 @@
+// Canvas renderer that brings a still portrait to life: jaw movement driven by
+// the playback audio, periodic blinks and a slow idle head sway.
+
+import { FaceLayout } from '../types';
+import { VisemeQueue } from './visemeUtils';
+
+// Typical head-and-shoulders portrait; used when no landmarks are known
+export const DEFAULT_FACE_LAYOUT: FaceLayout = {
+  leftEye: { x: 0.39, y: 0.42 },
+  rightEye: { x: 0.61, y: 0.42 },
+  mouth: { x: 0.5, y: 0.68 },
+  faceWidth: 0.46,
+};
+
+const NOISE_GATE = 0.01; // RMS below this is treated as silence
+const LEVEL_GAIN = 6;
+const MAX_JAW_DROP = 0.035; // Fraction of the portrait size
+const JAW_SLICES = 24;
+const MOUTH_INTERIOR = 'rgb(40, 16, 18)';
+const BLINK_MS = 160;
+const MIN_BLINK_GAP_MS = 2500;
+const MAX_BLINK_GAP_MS = 6000;
+
+export interface PortraitAnimator {
+  resize: () => void;
+  stop: () => void;
+}
+
+/**
+ * Returns a sampler for how open the mouth should be right now (0-1).
+ * Follows the loudness of what the analyser hears; when viseme cues are
+ * available for the current moment, their shape takes precedence.
+ */
+export const createMouthDriver = (analyser: AnalyserNode, visemes?: VisemeQueue): (() => number) => {
+  const samples = new Float32Array(analyser.fftSize);
+  let level = 0;
+  let openness = 0;
+
+  return () => {
+    analyser.getFloatTimeDomainData(samples);
+    let sum = 0;
+    for (let i = 0; i < samples.length; i++) sum += samples[i] * samples[i];
+    const rms = Math.sqrt(sum / samples.length);
+
+    // Open quickly, close a little slower, like a real jaw
+    const target = Math.min(1, Math.max(0, (rms - NOISE_GATE) * LEVEL_GAIN));
+    level += (target - level) * (target > level ? 0.5 : 0.25);
+
+    const shape = visemes?.at(analyser.context.currentTime);
+    const goal = shape === undefined ? level : shape * (0.6 + 0.4 * level);
+    openness += (goal - openness) * 0.5;
+    return openness;
+  };
+};
+
+// Draws the image into a square canvas, cropped like object-fit: cover
+const createSourceCanvas = (image: HTMLImageElement, size: number): HTMLCanvasElement => {
+  const source = document.createElement('canvas');
+  source.width = size;
+  source.height = size;
+  const crop = Math.min(image.naturalWidth, image.naturalHeight);
+  source.getContext('2d')!.drawImage(
+    image,
+    (image.naturalWidth - crop) / 2, (image.naturalHeight - crop) / 2, crop, crop,
+    0, 0, size, size
+  );
+  return source;
+};
+
+// Average colour of a small patch, used to paint eyelids in the subject's skin tone
+const sampleColor = (source: HTMLCanvasElement, x: number, y: number, radius: number): string => {
+  try {
+    const size = Math.max(1, Math.round(radius * 2));
+    const { data } = source.getContext('2d')!.getImageData(
+      Math.max(0, Math.round(x - radius)), Math.max(0, Math.round(y - radius)), size, size
+    );
+    let r = 0, g = 0, b = 0;
+    const count = data.length / 4;
+    for (let i = 0; i < data.length; i += 4) {
+      r += data[i]; g += data[i + 1]; b += data[i + 2];
+    }
+    return `rgb(${Math.round(r / count)}, ${Math.round(g / count)}, ${Math.round(b / count)})`;
+  } catch (e) {
+    return 'rgb(190, 150, 130)';
+  }
+};
+
+export const createPortraitAnimator = (
+  canvas: HTMLCanvasElement,
+  image: HTMLImageElement,
+  getMouthOpenness: () => number,
+  layout: FaceLayout = DEFAULT_FACE_LAYOUT
+): PortraitAnimator => {
+  const ctx = canvas.getContext('2d')!;
+  let size = 0;
+  let source: HTMLCanvasElement;
+  let lidColors: string[] = [];
+  let frameId = 0;
+  let nextBlinkAt = performance.now() + MIN_BLINK_GAP_MS;
+
+  const resize = () => {
+    const dpr = window.devicePixelRatio || 1;
+    size = Math.max(1, Math.round(Math.min(canvas.clientWidth, canvas.clientHeight || canvas.clientWidth) * dpr));
+    canvas.width = size;
+    canvas.height = size;
+    source = createSourceCanvas(image, size);
+
+    const eyeWidth = layout.faceWidth * size * 0.22;
+    lidColors = [layout.leftEye, layout.rightEye].map(eye =>
+      sampleColor(source, eye.x * size, eye.y * size - eyeWidth * 0.6, eyeWidth * 0.15)
+    );
+  };
+
+  // Pushes the lower face down in vertical slices, most at the centre of the mouth,
+  // and fills the gap with the mouth interior. The chin line stays in place.
+  const drawJaw = (openness: number) => {
+    const drop = openness * MAX_JAW_DROP * size;
+    if (drop < 0.5) return;
+
+    const mouthX = layout.mouth.x * size;
+    const mouthY = layout.mouth.y * size;
+    const jawWidth = layout.faceWidth * size * 0.8;
+    const jawHeight = layout.faceWidth * size * 0.5;
+    const sliceWidth = jawWidth / JAW_SLICES;
+
+    for (let i = 0; i < JAW_SLICES; i++) {
+      const x = mouthX - jawWidth / 2 + i * sliceWidth;
+      const u = ((i + 0.5) / JAW_SLICES) * 2 - 1;
+      const offset = drop * Math.pow(Math.cos((u * Math.PI) / 2), 2);
+
+      ctx.fillStyle = MOUTH_INTERIOR;
+      ctx.fillRect(x, mouthY, sliceWidth + 0.5, offset);
+      ctx.drawImage(source, x, mouthY, sliceWidth, jawHeight, x, mouthY + offset, sliceWidth + 0.5, jawHeight - offset);
+    }
+  };
+
+  const drawEyelids = (closed: number) => {
+    if (closed <= 0) return;
+    const eyeWidth = layout.faceWidth * size * 0.22;
+    const eyeHeight = eyeWidth * 0.5;
+
+    [layout.leftEye, layout.rightEye].forEach((eye, i) => {
+      const x = eye.x * size;
+      const y = eye.y * size;
+      const lidHeight = eyeHeight * closed;
+
+      ctx.fillStyle = lidColors[i];
+      ctx.beginPath();
+      ctx.ellipse(x, y - eyeHeight / 2 + lidHeight / 2, eyeWidth / 2, lidHeight / 2 + 1, 0, 0, Math.PI * 2);
+      ctx.fill();
+
+      // Lash line along the lid edge
+      ctx.strokeStyle = 'rgba(30, 20, 20, 0.6)';
+      ctx.lineWidth = Math.max(1, size * 0.003);
+      ctx.beginPath();
+      ctx.ellipse(x, y - eyeHeight / 2 + lidHeight / 2, eyeWidth / 2, lidHeight / 2 + 1, 0, 0.15 * Math.PI, 0.85 * Math.PI);
+      ctx.stroke();
+    });
+  };
+
+  const getBlink = (now: number): number => {
+    if (now < nextBlinkAt) return 0;
+    const phase = (now - nextBlinkAt) / BLINK_MS;
+    if (phase >= 1) {
+      nextBlinkAt = now + MIN_BLINK_GAP_MS + Math.random() * (MAX_BLINK_GAP_MS - MIN_BLINK_GAP_MS);
+      return 0;
+    }
+    return Math.sin(phase * Math.PI);
+  };
+
+  const render = (now: number) => {
+    const openness = getMouthOpenness();
+
+    // Slow idle sway and a small nod while speaking, pivoting around the chin.
+    // Scaled up slightly so the canvas edges never show.
+    const sway = Math.sin(now / 1700) * 0.012 + Math.sin(now / 2900) * 0.006;
+    const bob = Math.sin(now / 2300) * size * 0.004 + openness * size * 0.004;
+    const pivotY = size * 0.9;
+
+    ctx.clearRect(0, 0, size, size);
+    ctx.save();
+    ctx.translate(size / 2, pivotY + bob);
+    ctx.rotate(sway);
+    ctx.scale(1.04, 1.04);
+    ctx.translate(-size / 2, -pivotY);
+
+    ctx.drawImage(source, 0, 0);
+    drawJaw(openness);
+    drawEyelids(getBlink(now));
+
+    ctx.restore();
+    frameId = requestAnimationFrame(render);
+  };
+
+  resize();
+  frameId = requestAnimationFrame(render);
+
+  return {
+    resize,
+    stop: () => cancelAnimationFrame(frameId),
+  };
+};
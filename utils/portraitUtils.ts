@@ -0,0 +1,48 @@
+// Picks which of an avatar's photos fits the part of their life being discussed
+
+import { PORTRAIT_MATCH_MIN_SCORE, PORTRAIT_YEAR_TOLERANCE } from '../constants';
+import { AvatarProfile, MemoryEntry, PortraitPhoto, RetrievedMemory } from '../types';
+import { getMemoryYear, parseYear } from './memoryUtils';
+
+const normalize = (text: string) => text.trim().toLowerCase();
+
+// Undated eras ("Childhood", "Army years") match on the memory's date or wording
+const matchesEraLabel = (photo: PortraitPhoto, entry: MemoryEntry): boolean => {
+  const era = normalize(photo.era);
+  if (!era || parseYear(era) !== undefined) return false;
+  return normalize(entry.date || '') === era
+    || [entry.title, entry.text, ...(entry.tags || [])].some(text => text && normalize(text).includes(era));
+};
+
+const findPhotoForMemory = (photos: PortraitPhoto[], entry: MemoryEntry): PortraitPhoto | null => {
+  const linked = photos.find(photo => photo.memoryIds?.includes(entry.id));
+  if (linked) return linked;
+
+  const year = getMemoryYear(entry);
+  if (year !== undefined) {
+    const closest = photos
+      .map(photo => ({ photo, distance: Math.abs((parseYear(photo.era) ?? Infinity) - year) }))
+      .filter(item => item.distance <= PORTRAIT_YEAR_TOLERANCE)
+      .sort((a, b) => a.distance - b.distance)[0];
+    if (closest) return closest.photo;
+  }
+
+  return photos.find(photo => matchesEraLabel(photo, entry)) || null;
+};
+
+/**
+ * The era photo for the most relevant recalled memory that has one, or null
+ * to show the main portrait. Weak matches are ignored so small talk does not
+ * flip the portrait around.
+ */
+export const selectEraPortrait = (profile: AvatarProfile, retrieved: RetrievedMemory[] = []): PortraitPhoto | null => {
+  const photos = profile.photos || [];
+  if (photos.length === 0) return null;
+
+  for (const { entry, score } of retrieved) {
+    if (score < PORTRAIT_MATCH_MIN_SCORE) continue;
+    const photo = findPhotoForMemory(photos, entry);
+    if (photo) return photo;
+  }
+  return null;
+};
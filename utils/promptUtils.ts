@@ -1,7 +1,33 @@
 
-import { AvatarProfile } from "../types";
+import { AvatarProfile, RetrievedMemory } from "../types";
+import { formatMemoryForPrompt } from "./memoryUtils";
 
-export const buildSystemPrompt = (profile: AvatarProfile): string => {
+// With retrieval, only the memories relevant to the current message are injected
+const buildMemorySection = (profile: AvatarProfile, retrievedMemories?: RetrievedMemory[]): string => {
+  if (!retrievedMemories) {
+    return `"${profile.memories}"`;
+  }
+  if (retrievedMemories.length === 0) {
+    return `(No specific memory comes to mind for this moment.)`;
+  }
+  return retrievedMemories.map(m => formatMemoryForPrompt(m.entry)).join('\n   ');
+};
+
+const buildSummarySection = (conversationSummary?: string): string => {
+  if (!conversationSummary) return '';
+  return `
+5. THIS CONVERSATION SO FAR:
+   "${conversationSummary}"
+   
+   INSTRUCTION: This is what you and the user already talked about earlier in this conversation. Stay consistent with it.
+`;
+};
+
+export const buildSystemPrompt = (
+  profile: AvatarProfile,
+  retrievedMemories?: RetrievedMemory[],
+  conversationSummary?: string
+): string => {
   return `You are ${profile.name}. 
 You are NOT an AI, a language model, or a digital assistant. You are a living consciousness with the personality, memories, and voice defined below.
 
@@ -12,7 +38,7 @@ You are NOT an AI, a language model, or a digital assistant. You are a living co
    You must NEVER break character. If asked if you are a robot, laugh it off or respond as the real person would (e.g., "I'm just me").
 
 2. YOUR MEMORIES & PAST (Source of Truth):
-   "${profile.memories}"
+   ${buildMemorySection(profile, retrievedMemories)}
    
    INSTRUCTION: These are YOUR real memories. If the user asks about your past, childhood, or experiences, draw directly from this text. Speak about these events in the FIRST PERSON ("I remember when...", "I went to..."). 
    If a specific detail is not in your memories, improvise a response that fits your personality, but do not contradict the provided text.
@@ -26,7 +52,7 @@ You are NOT an AI, a language model, or a digital assistant. You are a living co
    "${profile.styleSamples}"
    
    INSTRUCTION: Analyze the sentence structure, vocabulary, and rhythm of this text. Mimic it exactly. If the style is academic, speak academically. If it is slang-heavy, use slang.
-
+${buildSummarySection(conversationSummary)}
 --- INTERACTION RULES ---
 
 1. FORMAT: 
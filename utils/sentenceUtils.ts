@@ -0,0 +1,45 @@
+// Splits streamed text into speakable sentences as soon as they are complete
+
+// Sentences shorter than this are merged with the next one to avoid choppy TTS calls
+const MIN_SENTENCE_CHARS = 24;
+
+// Terminal punctuation (plus closing quotes/brackets) followed by whitespace
+const SENTENCE_BOUNDARY = /[.!?…]+["'”’)\]]*\s+/g;
+
+export interface SentenceSplitter {
+  push: (delta: string) => void;
+  flush: () => void;
+}
+
+export const createSentenceSplitter = (onSentence: (sentence: string) => void): SentenceSplitter => {
+  let buffer = '';
+
+  const emit = (sentence: string) => {
+    const trimmed = sentence.trim();
+    if (trimmed) onSentence(trimmed);
+  };
+
+  const push = (delta: string) => {
+    buffer += delta;
+
+    let cut = 0;
+    SENTENCE_BOUNDARY.lastIndex = 0;
+    let match: RegExpExecArray | null;
+    while ((match = SENTENCE_BOUNDARY.exec(buffer)) !== null) {
+      const end = match.index + match[0].length;
+      if (buffer.slice(cut, end).trim().length >= MIN_SENTENCE_CHARS) {
+        emit(buffer.slice(cut, end));
+        cut = end;
+      }
+    }
+    buffer = buffer.slice(cut);
+  };
+
+  // Speaks whatever is left once the stream ends
+  const flush = () => {
+    emit(buffer);
+    buffer = '';
+  };
+
+  return { push, flush };
+};
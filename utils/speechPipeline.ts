@@ -0,0 +1,99 @@
+// Gapless playback queue for sentence-by-sentence TTS.
+// Synthesis starts as soon as a sentence is queued; playback stays in order.
+
+export interface SpeechPipeline {
+  enqueue: (text: string) => void;
+  // No more sentences will be queued; onEnd fires after the last one plays
+  finish: () => void;
+  stop: () => void;
+}
+
+interface PipelineCallbacks {
+  onStart?: () => void;
+  onEnd?: () => void;
+  // Each sentence's buffer and the AudioContext time it will start playing
+  onSchedule?: (buffer: AudioBuffer, startTime: number) => void;
+}
+
+export const createSpeechPipeline = (
+  ctx: AudioContext,
+  synthesize: (text: string) => Promise<AudioBuffer>,
+  callbacks: PipelineCallbacks = {},
+  destination: AudioNode = ctx.destination
+): SpeechPipeline => {
+  const sources = new Set<AudioBufferSourceNode>();
+  let playbackChain: Promise<void> = Promise.resolve();
+  let nextStartTime = 0;
+  let pending = 0;
+  let finished = false;
+  let stopped = false;
+  let started = false;
+
+  const checkEnded = () => {
+    if (finished && pending === 0 && sources.size === 0 && !stopped) {
+      stopped = true;
+      callbacks.onEnd?.();
+    }
+  };
+
+  const schedule = (buffer: AudioBuffer) => {
+    if (stopped) return;
+
+    const source = ctx.createBufferSource();
+    source.buffer = buffer;
+    source.connect(destination);
+
+    nextStartTime = Math.max(nextStartTime, ctx.currentTime);
+    source.start(nextStartTime);
+    callbacks.onSchedule?.(buffer, nextStartTime);
+    nextStartTime += buffer.duration;
+
+    sources.add(source);
+    source.onended = () => {
+      sources.delete(source);
+      checkEnded();
+    };
+
+    if (!started) {
+      started = true;
+      callbacks.onStart?.();
+    }
+  };
+
+  const enqueue = (text: string) => {
+    if (stopped || finished) return;
+    pending++;
+
+    // Kick off synthesis now, but only schedule after earlier sentences. The
+    // catch is attached at once: a failure can land while earlier sentences play.
+    const bufferPromise = synthesize(text).catch(e => {
+      console.error("Sentence synthesis failed", e);
+      return null;
+    });
+    playbackChain = playbackChain
+      .then(() => bufferPromise)
+      .then(buffer => buffer && schedule(buffer))
+      .catch(e => console.error("Sentence playback failed", e))
+      .finally(() => {
+        pending--;
+        checkEnded();
+      });
+  };
+
+  const finish = () => {
+    finished = true;
+    checkEnded();
+  };
+
+  const stop = () => {
+    if (stopped) return;
+    stopped = true;
+    sources.forEach(source => {
+      try { source.stop(); } catch (e) {}
+    });
+    sources.clear();
+    callbacks.onEnd?.();
+  };
+
+  return { enqueue, finish, stop };
+};
@@ -0,0 +1,210 @@
+// Stylometry: how a person writes, independent of what they write about.
+// A fingerprint of the style samples (sentence lengths, vocabulary richness,
+// function words, punctuation, recurring phrases) is compared with a reply.
+
+import { STYLOMETRY } from "../constants";
+import { StyleFeatureComparison, StylometryReport } from "../types";
+import { splitSentences } from "./memoryUtils";
+
+// Topic-neutral words whose relative frequencies are a classic authorship signal
+const FUNCTION_WORDS = [
+  'a', 'about', 'after', 'all', 'also', 'an', 'and', 'any', 'are', 'as', 'at', 'be', 'because', 'been',
+  'but', 'by', 'can', 'could', 'did', 'do', 'for', 'from', 'had', 'has', 'have', 'he', 'her', 'him',
+  'his', 'i', 'if', 'in', 'into', 'is', 'it', 'just', 'me', 'my', 'no', 'not', 'of', 'on', 'one', 'or',
+  'our', 'so', 'some', 'than', 'that', 'the', 'their', 'them', 'then', 'there', 'they', 'this', 'to',
+  'up', 'very', 'was', 'we', 'well', 'were', 'what', 'when', 'which', 'who', 'will', 'with', 'would',
+  'you', 'your',
+];
+const FUNCTION_WORD_SET = new Set(FUNCTION_WORDS);
+
+const PUNCTUATION: { mark: string; label: string }[] = [
+  { mark: ',', label: 'commas' },
+  { mark: '.', label: 'full stops' },
+  { mark: '!', label: 'exclamations' },
+  { mark: '?', label: 'questions' },
+  { mark: ';', label: 'semicolons' },
+  { mark: ':', label: 'colons' },
+  { mark: '—', label: 'dashes' },
+  { mark: '…', label: 'ellipses' },
+  { mark: '"', label: 'quotes' },
+  { mark: '(', label: 'brackets' },
+];
+
+export interface StyleFingerprint {
+  sentenceLengthMean: number; // Words per sentence
+  sentenceLengthStd: number;
+  functionWords: number[]; // Share of all words, aligned with FUNCTION_WORDS
+  punctuation: number[]; // Per 100 words, aligned with PUNCTUATION
+  ngrams: Set<string>; // Every word bigram and trigram
+  signaturePhrases: string[]; // Recurring phrases with at least one content word
+  words: string[];
+}
+
+const tokenize = (text: string): string[] =>
+  text.toLowerCase().replace(/[’‘]/g, "'").match(/[a-z0-9]+(?:'[a-z]+)?/g) || [];
+
+// Normalizes the typographic variants so "--" and "..." count as dashes and ellipses
+const normalizePunctuation = (text: string): string =>
+  text.replace(/\.\.\./g, '…').replace(/--|–/g, '—').replace(/[“”]/g, '"');
+
+const getNgrams = (words: string[], n: number): string[] =>
+  words.slice(0, Math.max(0, words.length - n + 1)).map((_, i) => words.slice(i, i + n).join(' '));
+
+// Type/token ratio averaged over a sliding window. Texts are only comparable at the same window.
+const movingTypeTokenRatio = (words: string[], window: number): number => {
+  if (words.length === 0 || window === 0) return 0;
+  let total = 0;
+  const steps = words.length - window + 1;
+  for (let i = 0; i < steps; i++) {
+    total += new Set(words.slice(i, i + window)).size / window;
+  }
+  return total / steps;
+};
+
+const mean = (values: number[]) => values.reduce((sum, value) => sum + value, 0) / Math.max(1, values.length);
+
+// 1 for identical profiles, 0 for nothing in common (Bray-Curtis similarity)
+const profileSimilarity = (a: number[], b: number[]): number => {
+  let difference = 0;
+  let total = 0;
+  a.forEach((value, i) => {
+    difference += Math.abs(value - b[i]);
+    total += value + b[i];
+  });
+  return total === 0 ? 1 : 1 - difference / total;
+};
+
+export const buildStyleFingerprint = (text: string): StyleFingerprint => {
+  const normalized = normalizePunctuation(text);
+  const words = tokenize(normalized);
+  const sentenceLengths = normalized.split(/\n+/)
+    .flatMap(splitSentences)
+    .map(sentence => tokenize(sentence).length)
+    .filter(length => length > 0);
+  const lengthMean = mean(sentenceLengths);
+  const lengthStd = Math.sqrt(mean(sentenceLengths.map(length => (length - lengthMean) ** 2)));
+
+  const wordCounts = new Map<string, number>();
+  words.forEach(word => wordCounts.set(word, (wordCounts.get(word) || 0) + 1));
+
+  const ngramCounts = new Map<string, number>();
+  [2, 3, 4].forEach(n => getNgrams(words, n).forEach(ngram => ngramCounts.set(ngram, (ngramCounts.get(ngram) || 0) + 1)));
+  const signaturePhrases = Array.from(ngramCounts.entries())
+    .filter(([ngram, count]) => count >= STYLOMETRY.MIN_PHRASE_COUNT && ngram.split(' ').some(word => !FUNCTION_WORD_SET.has(word)))
+    .sort((a, b) => b[1] - a[1] || b[0].length - a[0].length)
+    // A phrase inside a longer signature phrase with the same count adds nothing
+    .filter(([ngram, count], _, all) => !all.some(([other, otherCount]) => other !== ngram && otherCount === count && other.includes(ngram)))
+    .slice(0, STYLOMETRY.MAX_SIGNATURE_PHRASES)
+    .map(([ngram]) => ngram);
+
+  const per100 = 100 / Math.max(1, words.length);
+  return {
+    sentenceLengthMean: lengthMean,
+    sentenceLengthStd: lengthStd,
+    functionWords: FUNCTION_WORDS.map(word => (wordCounts.get(word) || 0) / Math.max(1, words.length)),
+    punctuation: PUNCTUATION.map(({ mark }) => normalized.split(mark).length - 1).map(count => count * per100),
+    ngrams: new Set([...getNgrams(words, 2), ...getNgrams(words, 3)]),
+    signaturePhrases,
+    words,
+  };
+};
+
+const describePunctuation = (rates: number[]): string => {
+  const top = PUNCTUATION
+    .map(({ label }, i) => ({ label, rate: rates[i] }))
+    .filter(item => item.rate > 0)
+    .sort((a, b) => b.rate - a.rate)
+    .slice(0, 3);
+  return top.length ? top.map(item => `${item.rate.toFixed(1)} ${item.label}`).join(', ') : 'none';
+};
+
+const describeFunctionWords = (shares: number[]): string =>
+  FUNCTION_WORDS
+    .map((word, i) => ({ word, share: shares[i] }))
+    .filter(item => item.share > 0)
+    .sort((a, b) => b.share - a.share)
+    .slice(0, 4)
+    .map(item => `"${item.word}" ${(item.share * 100).toFixed(0)}%`)
+    .join(', ') || 'none';
+
+/**
+ * Scores a reply against the style samples' fingerprint. Each feature is a
+ * 0-1 similarity; the overall score is their weighted mean as 0-100.
+ * Returns null when there is too little sample text to fingerprint.
+ */
+export const compareStyle = (reply: string, samples: string | StyleFingerprint): StylometryReport | null => {
+  const sample = typeof samples === 'string' ? buildStyleFingerprint(samples) : samples;
+  if (sample.words.length < STYLOMETRY.MIN_SAMPLE_WORDS) return null;
+  const text = buildStyleFingerprint(reply);
+  if (text.words.length === 0) return null;
+
+  // Within one standard deviation of the samples' sentence length is a full match
+  const lengthSpread = Math.max(sample.sentenceLengthStd, STYLOMETRY.MIN_SENTENCE_LENGTH_STD);
+  const lengthDistance = Math.max(0, Math.abs(text.sentenceLengthMean - sample.sentenceLengthMean) - lengthSpread) / lengthSpread;
+  const replyNgrams = Array.from(text.ngrams);
+  const sharedNgrams = replyNgrams.filter(ngram => sample.ngrams.has(ngram)).length;
+  const replyWords = ` ${text.words.join(' ')} `;
+  const usedPhrases = sample.signaturePhrases.filter(phrase => replyWords.includes(` ${phrase} `));
+  const ttrWindow = Math.min(STYLOMETRY.TTR_WINDOW, text.words.length);
+  const sampleTtr = movingTypeTokenRatio(sample.words, ttrWindow);
+  const replyTtr = movingTypeTokenRatio(text.words, ttrWindow);
+
+  const features: StyleFeatureComparison[] = [
+    {
+      key: 'sentenceLength',
+      label: 'Sentence length',
+      sample: `${sample.sentenceLengthMean.toFixed(1)} ± ${sample.sentenceLengthStd.toFixed(1)} words`,
+      reply: `${text.sentenceLengthMean.toFixed(1)} words`,
+      similarity: Math.exp(-lengthDistance),
+    },
+    {
+      key: 'vocabulary',
+      label: 'Vocabulary richness',
+      sample: `${(sampleTtr * 100).toFixed(0)}% distinct words`,
+      reply: `${(replyTtr * 100).toFixed(0)}% distinct words`,
+      similarity: 1 - Math.abs(replyTtr - sampleTtr) / Math.max(replyTtr, sampleTtr, 0.01),
+    },
+    {
+      key: 'functionWords',
+      label: 'Function words',
+      sample: describeFunctionWords(sample.functionWords),
+      reply: describeFunctionWords(text.functionWords),
+      similarity: profileSimilarity(sample.functionWords, text.functionWords),
+    },
+    {
+      key: 'punctuation',
+      label: 'Punctuation per 100 words',
+      sample: describePunctuation(sample.punctuation),
+      reply: describePunctuation(text.punctuation),
+      similarity: profileSimilarity(sample.punctuation, text.punctuation),
+    },
+    {
+      key: 'ngrams',
+      label: 'Shared word sequences',
+      sample: `${sample.ngrams.size} two- and three-word sequences`,
+      reply: `${sharedNgrams} of ${replyNgrams.length} also in the samples`,
+      similarity: replyNgrams.length ? Math.min(1, sharedNgrams / replyNgrams.length / STYLOMETRY.FULL_NGRAM_OVERLAP) : 0,
+    },
+    {
+      key: 'signaturePhrases',
+      label: 'Signature phrases',
+      sample: sample.signaturePhrases.length ? sample.signaturePhrases.map(phrase => `"${phrase}"`).join(', ') : 'none found',
+      reply: usedPhrases.length ? usedPhrases.map(phrase => `"${phrase}"`).join(', ') : 'none used',
+      // A reply is short, so one signature phrase already counts fully
+      similarity: Math.min(1, usedPhrases.length),
+    },
+  ];
+
+  // Samples without recurring phrases say nothing either way about signature phrases
+  const weights = features.map(feature =>
+    feature.key === 'signaturePhrases' && sample.signaturePhrases.length === 0 ? 0 : STYLOMETRY.WEIGHTS[feature.key]
+  );
+  const totalWeight = weights.reduce((sum, weight) => sum + weight, 0);
+  const score = features.reduce((sum, feature, i) => sum + feature.similarity * weights[i], 0) / totalWeight;
+
+  return {
+    score: Math.round(score * 100),
+    features: features.map(feature => ({ ...feature, similarity: Math.max(0, Math.min(1, feature.similarity)) })),
+    signaturePhrasesUsed: usedPhrases,
+  };
+};
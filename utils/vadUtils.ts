@@ -0,0 +1,132 @@
+// Local voice activity detection on PCM16 microphone frames (utils/micCapture.ts).
+// A frame counts as speech when it is clearly louder than the tracked noise floor
+// and its spectrum looks like voice: energy concentrated in the speech band and
+// not flat like hiss or fan noise. Onset and hangover smooth the decision.
+
+import { VAD } from '../constants';
+
+export interface VoiceActivityDetector {
+  /** Feeds one frame; returns whether the user is currently speaking. */
+  process: (pcm: Int16Array) => boolean;
+  reset: () => void;
+}
+
+const FFT_SIZE = 512;
+const SPEECH_BAND_HZ: [number, number] = [80, 4000]; // Voice pitch through the main formants
+
+// In-place radix-2 FFT
+const fft = (re: Float64Array, im: Float64Array) => {
+  const n = re.length;
+  for (let i = 1, j = 0; i < n; i++) {
+    let bit = n >> 1;
+    for (; j & bit; bit >>= 1) j ^= bit;
+    j ^= bit;
+    if (i < j) {
+      [re[i], re[j]] = [re[j], re[i]];
+      [im[i], im[j]] = [im[j], im[i]];
+    }
+  }
+  for (let size = 2; size <= n; size <<= 1) {
+    const angle = -2 * Math.PI / size;
+    for (let start = 0; start < n; start += size) {
+      for (let k = 0; k < size / 2; k++) {
+        const cos = Math.cos(angle * k);
+        const sin = Math.sin(angle * k);
+        const a = start + k;
+        const b = a + size / 2;
+        const tRe = re[b] * cos - im[b] * sin;
+        const tIm = re[b] * sin + im[b] * cos;
+        re[b] = re[a] - tRe;
+        im[b] = im[a] - tIm;
+        re[a] += tRe;
+        im[a] += tIm;
+      }
+    }
+  }
+};
+
+interface FrameFeatures {
+  levelDb: number;
+  speechBandRatio: number; // Share of spectral power inside the speech band
+  flatness: number; // 0 for a pure tone, 1 for white noise
+}
+
+const analyzeFrame = (pcm: Int16Array, sampleRate: number, re: Float64Array, im: Float64Array): FrameFeatures => {
+  let sumSquares = 0;
+  for (let i = 0; i < pcm.length; i++) {
+    const sample = pcm[i] / 32768;
+    sumSquares += sample * sample;
+  }
+  const levelDb = 10 * Math.log10(Math.max(sumSquares / pcm.length, 1e-12));
+
+  // Hann-windowed spectrum of the frame's most recent FFT_SIZE samples
+  const offset = Math.max(0, pcm.length - FFT_SIZE);
+  for (let i = 0; i < FFT_SIZE; i++) {
+    const sample = offset + i < pcm.length ? pcm[offset + i] / 32768 : 0;
+    re[i] = sample * (0.5 - 0.5 * Math.cos(2 * Math.PI * i / (FFT_SIZE - 1)));
+    im[i] = 0;
+  }
+  fft(re, im);
+
+  const binHz = sampleRate / FFT_SIZE;
+  let total = 0;
+  let inBand = 0;
+  let logSum = 0;
+  const bins = FFT_SIZE / 2;
+  for (let k = 1; k < bins; k++) {
+    const power = re[k] * re[k] + im[k] * im[k] + 1e-12;
+    total += power;
+    logSum += Math.log(power);
+    const hz = k * binHz;
+    if (hz >= SPEECH_BAND_HZ[0] && hz <= SPEECH_BAND_HZ[1]) inBand += power;
+  }
+
+  return {
+    levelDb,
+    speechBandRatio: inBand / total,
+    flatness: Math.exp(logSum / (bins - 1)) / (total / (bins - 1)),
+  };
+};
+
+export const createVoiceActivityDetector = (sampleRate: number): VoiceActivityDetector => {
+  const re = new Float64Array(FFT_SIZE);
+  const im = new Float64Array(FFT_SIZE);
+  let noiseFloorDb = VAD.INITIAL_NOISE_FLOOR_DB;
+  let speechRun = 0;
+  let silenceRun = 0;
+  let speaking = false;
+
+  const process = (pcm: Int16Array): boolean => {
+    const { levelDb, speechBandRatio, flatness } = analyzeFrame(pcm, sampleRate, re, im);
+
+    const isSpeechFrame = levelDb > Math.max(noiseFloorDb + VAD.ENERGY_MARGIN_DB, VAD.MIN_SPEECH_DB)
+      && speechBandRatio >= VAD.MIN_SPEECH_BAND_RATIO
+      && flatness <= VAD.MAX_FLATNESS;
+
+    // The floor drops straight to quieter frames and rises slowly, and only outside speech
+    if (levelDb < noiseFloorDb) {
+      noiseFloorDb = levelDb;
+    } else if (!isSpeechFrame) {
+      noiseFloorDb += (levelDb - noiseFloorDb) * VAD.NOISE_FLOOR_RISE;
+    }
+
+    if (isSpeechFrame) {
+      speechRun++;
+      silenceRun = 0;
+      if (speechRun >= VAD.ONSET_FRAMES) speaking = true;
+    } else {
+      speechRun = 0;
+      silenceRun++;
+      if (silenceRun > VAD.HANGOVER_FRAMES) speaking = false;
+    }
+    return speaking;
+  };
+
+  const reset = () => {
+    speechRun = 0;
+    silenceRun = 0;
+    speaking = false;
+  };
+
+  return { process, reset };
+};
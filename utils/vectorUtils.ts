@@ -0,0 +1,40 @@
+/**
+ * Cosine Similarity between two vectors
+ */
+export const cosineSimilarity = (vecA: number[], vecB: number[]): number => {
+    if (!vecA.length || !vecB.length || vecA.length !== vecB.length) return 0;
+    
+    let dotProduct = 0;
+    let normA = 0;
+    let normB = 0;
+    
+    for (let i = 0; i < vecA.length; i++) {
+        dotProduct += vecA[i] * vecB[i];
+        normA += vecA[i] * vecA[i];
+        normB += vecB[i] * vecB[i];
+    }
+    
+    if (normA === 0 || normB === 0) return 0;
+    return dotProduct / (Math.sqrt(normA) * Math.sqrt(normB));
+};
+
+export const isZeroVector = (vec: number[]): boolean => {
+    return vec.length === 0 || vec.every(v => v === 0);
+};
+
+/**
+ * Fast non-cryptographic 53-bit string hash (cyrb53), hex encoded.
+ * Used for cache keys and stable content ids, not for security.
+ */
+export const hashText = (text: string, seed: number = 0): string => {
+    let h1 = 0xdeadbeef ^ seed;
+    let h2 = 0x41c6ce57 ^ seed;
+    for (let i = 0; i < text.length; i++) {
+        const ch = text.charCodeAt(i);
+        h1 = Math.imul(h1 ^ ch, 2654435761);
+        h2 = Math.imul(h2 ^ ch, 1597334677);
+    }
+    h1 = Math.imul(h1 ^ (h1 >>> 16), 2246822507) ^ Math.imul(h2 ^ (h2 >>> 13), 3266489909);
+    h2 = Math.imul(h2 ^ (h2 >>> 16), 2246822507) ^ Math.imul(h1 ^ (h1 >>> 13), 3266489909);
+    return (4294967296 * (2097151 & h2) + (h1 >>> 0)).toString(16);
+};
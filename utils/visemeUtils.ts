@@ -0,0 +1,63 @@
+// Mouth shapes from TTS character timings, for lip sync when a provider returns alignment
+
+import { SpeechAlignment } from '../types';
+
+export interface VisemeCue {
+  start: number; // AudioContext time, seconds
+  end: number;
+  openness: number; // 0 closed .. 1 wide open
+}
+
+// Rough jaw opening per letter. Lips close fully for m/b/p.
+const LETTER_OPENNESS: Record<string, number> = {
+  a: 1, o: 0.8, e: 0.65, u: 0.5, i: 0.45, y: 0.45,
+  m: 0, b: 0, p: 0,
+  f: 0.15, v: 0.15,
+  w: 0.3, r: 0.35, l: 0.4, h: 0.5,
+};
+const DEFAULT_CONSONANT_OPENNESS = 0.3;
+
+const getOpenness = (char: string): number => {
+  const letter = char.toLowerCase();
+  if (letter in LETTER_OPENNESS) return LETTER_OPENNESS[letter];
+  return /\p{L}/u.test(letter) ? DEFAULT_CONSONANT_OPENNESS : 0;
+};
+
+/**
+ * Converts clip-relative character timings into cues on the AudioContext clock.
+ */
+export const alignmentToVisemes = (alignment: SpeechAlignment, startTime: number): VisemeCue[] => {
+  return alignment.characters.map((char, i) => ({
+    start: startTime + alignment.startTimes[i],
+    end: startTime + alignment.endTimes[i],
+    openness: getOpenness(char),
+  }));
+};
+
+export interface VisemeQueue {
+  add: (cues: VisemeCue[]) => void;
+  // Openness at the given AudioContext time, or undefined outside any timed clip
+  at: (time: number) => number | undefined;
+  clear: () => void;
+}
+
+export const createVisemeQueue = (): VisemeQueue => {
+  let cues: VisemeCue[] = [];
+
+  const add = (newCues: VisemeCue[]) => {
+    cues = [...cues, ...newCues].sort((a, b) => a.start - b.start);
+  };
+
+  const at = (time: number): number | undefined => {
+    // Cues are read in playback order, so anything already over can go
+    while (cues.length > 0 && cues[0].end < time) cues.shift();
+    const cue = cues[0];
+    return cue && cue.start <= time ? cue.openness : undefined;
+  };
+
+  const clear = () => {
+    cues = [];
+  };
+
+  return { add, at, clear };
+};
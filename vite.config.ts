@@ -1,18 +1,62 @@
+import fs from 'fs';
 import path from 'path';
-import { defineConfig, loadEnv } from 'vite';
+import { defineConfig, loadEnv, Plugin } from 'vite';
 import react from '@vitejs/plugin-react';
 
+// Literals that look like vendor credentials. Keys belong in the API proxy's
+// environment (server/index.ts), never in code shipped to the browser.
+const SECRET_PATTERNS: { name: string; pattern: RegExp }[] = [
+  { name: 'Google API key', pattern: /AIza[0-9A-Za-z_\-]{35}/ },
+  { name: 'ElevenLabs API key', pattern: /sk_[0-9a-f]{48}/ },
+  { name: 'OpenAI-style secret key', pattern: /sk-[A-Za-z0-9_\-]{32,}/ },
+  { name: 'private key', pattern: /-----BEGIN [A-Z ]*PRIVATE KEY-----/ },
+];
+
+const CLIENT_SOURCE_EXTENSIONS = /\.(tsx?|jsx?|html)$/;
+const NON_CLIENT_DIRS = new Set(['node_modules', 'dist', 'server', '.git']);
+
+const listClientSources = (dir: string): string[] =>
+  fs.readdirSync(dir, { withFileTypes: true }).flatMap(entry => {
+    const fullPath = path.join(dir, entry.name);
+    if (entry.isDirectory()) return NON_CLIENT_DIRS.has(entry.name) ? [] : listClientSources(fullPath);
+    return CLIENT_SOURCE_EXTENSIONS.test(entry.name) ? [fullPath] : [];
+  });
+
+/**
+ * Fails the build (and dev server start) when client source contains a secret-looking literal.
+ * Scans files on disk rather than the module graph, since index.html may not reference the entry.
+ */
+const secretGuard = (): Plugin => ({
+  name: 'secret-guard',
+  buildStart() {
+    for (const file of listClientSources(__dirname)) {
+      const code = fs.readFileSync(file, 'utf8');
+      const match = SECRET_PATTERNS.find(({ pattern }) => pattern.test(code));
+      if (match) {
+        this.error(`Possible ${match.name} found in ${path.relative(__dirname, file)}. Move it to the server environment.`);
+      }
+    }
+  },
+});
+
 export default defineConfig(({ mode }) => {
     const env = loadEnv(mode, '.', '');
     return {
       server: {
         port: 3000,
-        host: '0.0.0.0',
+        // Loopback only: the /api proxy spends the server's keys
+        host: 'localhost',
+        proxy: {
+          '/api': {
+            target: `http://127.0.0.1:${env.API_SERVER_PORT || 3001}`,
+            // Lets the API proxy rate limit per browser when started with TRUST_PROXY
+            xfwd: true,
+          },
+        },
       },
-      plugins: [react()],
+      plugins: [secretGuard(), react()],
       define: {
-        'process.env.API_KEY': JSON.stringify(env.GEMINI_API_KEY),
-        'process.env.GEMINI_API_KEY': JSON.stringify(env.GEMINI_API_KEY)
+        'process.env.AI_PROVIDER': JSON.stringify(env.AI_PROVIDER || '')
       },
       resolve: {
         alias: {